@@ -2,33 +2,56 @@ import typescript from '@rollup/plugin-typescript';
 import resolve from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import dts from 'rollup-plugin-dts';
+import { fileURLToPath } from 'url';
+
+// Loaded by `list.toStream` on first use
+const nodeEntry = fileURLToPath(new URL('src/node.ts', import.meta.url));
 
 export default [
   {
     input: 'src/index.ts',
+    // A single-file bundle can't split out the `/node` entry, so it imports the published one
+    external: [nodeEntry],
+    makeAbsoluteExternalsRelative: false,
     output: [
       {
         file: 'dist/index.js',
         format: 'umd',
         name: 'SuperArray',
+        paths: { [nodeEntry]: '@mehdiasadov/superarray/node' },
         sourcemap: true,
       },
+    ],
+    plugins: [typescript({ tsconfig: './tsconfig.json' }), resolve(), commonjs()],
+  },
+  {
+    // The Node-only stream adapters are a separate entry point; both entries share one chunk
+    // with the List classes, so values from either are instances of the same List
+    input: { index: 'src/index.ts', node: 'src/node.ts' },
+    external: ['stream'],
+    output: [
       {
-        file: 'dist/index.mjs',
+        dir: 'dist',
         format: 'es',
+        entryFileNames: '[name].mjs',
+        chunkFileNames: '[name]-[hash].mjs',
         sourcemap: true,
       },
       {
-        file: 'dist/index.cjs',
+        dir: 'dist',
         format: 'cjs',
+        entryFileNames: '[name].cjs',
+        chunkFileNames: '[name]-[hash].cjs',
         sourcemap: true,
       },
     ],
     plugins: [typescript({ tsconfig: './tsconfig.json' }), resolve(), commonjs()],
   },
   {
-    input: 'dist/index.d.ts', // Changed from 'dist/dts/index.d.ts'
-    output: [{ file: 'dist/index.d.ts', format: 'es' }],
+    // Bundled together, so both entry points share the declaration of List
+    input: { index: 'dist/index.d.ts', node: 'dist/node.d.ts' },
+    external: ['stream'],
+    output: [{ dir: 'dist', format: 'es', chunkFileNames: 'List-[hash].d.ts' }],
     plugins: [dts()],
   },
 ];
@@ -0,0 +1,128 @@
+import List from './List';
+import type { Aggregator, AggregatorResults } from './aggregate';
+import { HashMap, deepEquality, resolveEquality } from './equality';
+import type { Equality, EqualityStrategy } from './equality';
+
+type AggregateRow<K, A> = { key: K } & AggregatorResults<A>;
+
+// Groups of a List by key, in order of each key's first occurrence
+class GroupedList<K, T> implements Iterable<[K, List<T>]> {
+  private readonly entries: [K, List<T>][];
+  private readonly index: HashMap<K, List<T>>;
+  private readonly equality?: Equality<K>;
+
+  constructor(entries: Iterable<[K, List<T>]> = [], equality?: EqualityStrategy<K>) {
+    this.equality = resolveEquality(equality);
+    this.index = new HashMap(this.equality);
+    this.entries = [];
+    for (const [key, group] of entries) {
+      const existing = this.index.get(key);
+      if (existing) {
+        existing.push(...group);
+      } else {
+        const copy = group.slice();
+        this.index.set(key, copy);
+        this.entries.push([key, copy]);
+      }
+    }
+  }
+
+  // Group `items` by `keyFn`; an array of key functions groups by the tuple of their keys
+  static from<T, K>(
+    items: Iterable<T>,
+    keyFn: ((item: T) => K) | ((item: T) => unknown)[],
+    equality?: EqualityStrategy<K>
+  ): GroupedList<K, T> {
+    const key = Array.isArray(keyFn) ? (item: T) => keyFn.map((fn) => fn(item)) as K : keyFn;
+    // Tuple keys are fresh arrays, so they can only match structurally
+    const grouped = new GroupedList<K, T>([], Array.isArray(keyFn) ? deepEquality : equality);
+    for (const item of items) grouped.add(key(item), item);
+    return grouped;
+  }
+
+  *[Symbol.iterator](): Iterator<[K, List<T>]> {
+    yield* this.entries;
+  }
+
+  [Symbol.toStringTag] = 'GroupedList';
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  keys(): List<K> {
+    return new List(this.entries.map(([key]) => key));
+  }
+
+  groups(): List<List<T>> {
+    return new List(this.entries.map(([, group]) => group));
+  }
+
+  get(key: K): List<T> | undefined {
+    return this.index.get(key);
+  }
+
+  has(key: K): boolean {
+    return this.index.has(key);
+  }
+
+  // Keep the groups passing `predicate`, like SQL's HAVING
+  having(predicate: (group: List<T>, key: K) => boolean): GroupedList<K, T> {
+    return new GroupedList(
+      this.entries.filter(([key, group]) => predicate(group, key)),
+      this.equality
+    );
+  }
+
+  // Split every group further, keyed by `[key, subKey]`
+  groupBy<J>(keyFn: (item: T) => J): GroupedList<[K, J], T> {
+    const grouped = new GroupedList<[K, J], T>([], deepEquality);
+    for (const [key, group] of this.entries) {
+      for (const item of group) grouped.add([key, keyFn(item)], item);
+    }
+    return grouped;
+  }
+
+  // One row per group with its key and each aggregator's result
+  aggregate<A extends Record<string, Aggregator<T, unknown>>>(
+    aggregators: A
+  ): List<AggregateRow<K, A>> {
+    return new List(
+      this.entries.map(([key, group]) => {
+        const row: Record<string, unknown> = { key };
+        for (const name of Object.keys(aggregators)) {
+          row[name] = aggregators[name](group);
+        }
+        return row as AggregateRow<K, A>;
+      })
+    );
+  }
+
+  map<U>(fn: (group: List<T>, key: K) => U): List<U> {
+    return new List(this.entries.map(([key, group]) => fn(group, key)));
+  }
+
+  // Flatten the groups back into one list, group by group
+  ungroup(): List<T> {
+    return new List(([] as T[]).concat(...this.entries.map(([, group]) => group.toArray())));
+  }
+
+  toMap(): Map<K, List<T>> {
+    return new Map(this.entries);
+  }
+
+  private add(key: K, item: T): void {
+    const group = this.index.get(key);
+    if (group) {
+      group.push(item);
+    } else {
+      const created = new List([item]);
+      this.index.set(key, created);
+      this.entries.push([key, created]);
+    }
+  }
+}
+
+export type { AggregateRow };
+
+export default GroupedList;
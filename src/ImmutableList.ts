@@ -0,0 +1,856 @@
+import List from './List';
+import type {
+  Description,
+  EachCallback,
+  EachContext,
+  EachGuard,
+  EachOptions,
+  EqualityStrategy,
+  Flattened,
+  QuantileOptions,
+  RandomOptions,
+  SetMatcher,
+  SetOptions,
+  SortDirection,
+  SortKey,
+  SortMethod,
+  StatsAccessor,
+  VarianceOptions,
+  WindowOptions,
+  ZipSources,
+} from './List';
+import { ListRangeError } from './errors';
+import { iterationBounds, visit } from './iteration';
+import type { IterationBounds, PositionReader } from './iteration';
+import { shuffleInPlace } from './random';
+
+// Persistent, size-annotated AVL tree. Nodes are never mutated after creation,
+// so every update copies only the O(log n) nodes on the affected path and shares the rest.
+type Node<T> = {
+  readonly value: T;
+  readonly left: Node<T> | null;
+  readonly right: Node<T> | null;
+  readonly size: number;
+  readonly height: number;
+};
+
+const sizeOf = <T>(node: Node<T> | null): number => (node ? node.size : 0);
+const heightOf = <T>(node: Node<T> | null): number => (node ? node.height : 0);
+
+const makeNode = <T>(left: Node<T> | null, value: T, right: Node<T> | null): Node<T> => ({
+  value,
+  left,
+  right,
+  size: sizeOf(left) + sizeOf(right) + 1,
+  height: Math.max(heightOf(left), heightOf(right)) + 1,
+});
+
+// Rebuild a node whose subtrees differ in height by at most 2
+const balance = <T>(left: Node<T> | null, value: T, right: Node<T> | null): Node<T> => {
+  const diff = heightOf(left) - heightOf(right);
+
+  if (diff > 1) {
+    const l = left!;
+    if (heightOf(l.left) >= heightOf(l.right)) {
+      return makeNode(l.left, l.value, makeNode(l.right, value, right));
+    }
+    const lr = l.right!;
+    return makeNode(makeNode(l.left, l.value, lr.left), lr.value, makeNode(lr.right, value, right));
+  }
+
+  if (diff < -1) {
+    const r = right!;
+    if (heightOf(r.right) >= heightOf(r.left)) {
+      return makeNode(makeNode(left, value, r.left), r.value, r.right);
+    }
+    const rl = r.left!;
+    return makeNode(makeNode(left, value, rl.left), rl.value, makeNode(rl.right, r.value, r.right));
+  }
+
+  return makeNode(left, value, right);
+};
+
+// Join two trees of arbitrary heights around a middle value in O(|h(left) - h(right)|)
+const join = <T>(left: Node<T> | null, value: T, right: Node<T> | null): Node<T> => {
+  if (heightOf(left) > heightOf(right) + 1) {
+    const l = left!;
+    return balance(l.left, l.value, join(l.right, value, right));
+  }
+  if (heightOf(right) > heightOf(left) + 1) {
+    const r = right!;
+    return balance(join(left, value, r.left), r.value, r.right);
+  }
+  return makeNode(left, value, right);
+};
+
+const removeLast = <T>(node: Node<T>): [Node<T> | null, T] => {
+  if (!node.right) return [node.left, node.value];
+  const [right, last] = removeLast(node.right);
+  return [balance(node.left, node.value, right), last];
+};
+
+const concatTrees = <T>(left: Node<T> | null, right: Node<T> | null): Node<T> | null => {
+  if (!left) return right;
+  if (!right) return left;
+  const [rest, last] = removeLast(left);
+  return join(rest, last, right);
+};
+
+// Split into the first `index` elements and the rest
+const split = <T>(node: Node<T> | null, index: number): [Node<T> | null, Node<T> | null] => {
+  if (!node) return [null, null];
+  if (index <= 0) return [null, node];
+  if (index >= node.size) return [node, null];
+
+  const leftSize = sizeOf(node.left);
+  if (index <= leftSize) {
+    const [a, b] = split(node.left, index);
+    return [a, join(b, node.value, node.right)];
+  }
+  const [a, b] = split(node.right, index - leftSize - 1);
+  return [join(node.left, node.value, a), b];
+};
+
+const nodeAt = <T>(node: Node<T> | null, index: number): Node<T> | undefined => {
+  while (node) {
+    const leftSize = sizeOf(node.left);
+    if (index < leftSize) {
+      node = node.left;
+    } else if (index === leftSize) {
+      return node;
+    } else {
+      index -= leftSize + 1;
+      node = node.right;
+    }
+  }
+  return undefined;
+};
+
+const setAt = <T>(node: Node<T>, index: number, value: T): Node<T> => {
+  const leftSize = sizeOf(node.left);
+  if (index < leftSize) return makeNode(setAt(node.left!, index, value), node.value, node.right);
+  if (index > leftSize) {
+    return makeNode(node.left, node.value, setAt(node.right!, index - leftSize - 1, value));
+  }
+  return makeNode(node.left, value, node.right);
+};
+
+const build = <T>(items: readonly T[], start: number, end: number): Node<T> | null => {
+  if (start >= end) return null;
+  const mid = (start + end) >>> 1;
+  return makeNode(build(items, start, mid), items[mid], build(items, mid + 1, end));
+};
+
+// In-order (or reverse-order) values, with an explicit stack instead of recursion
+function* walk<T>(root: Node<T> | null, reverse: boolean = false): Generator<T> {
+  const stack: Node<T>[] = [];
+  let node = root;
+  while (node || stack.length > 0) {
+    while (node) {
+      stack.push(node);
+      node = reverse ? node.right : node.left;
+    }
+    node = stack.pop()!;
+    yield node.value;
+    node = reverse ? node.left : node.right;
+  }
+}
+
+// Reads the visited elements from one pass over `values`, keeping only the ones a callback's
+// context can refer to: up to `window` (at least one) on each side of the current position
+const sequentialReader = <T>(values: Iterator<T>, window: number): PositionReader<T> => {
+  const reach = Math.max(window, 1);
+  const kept: T[] = [];
+  // Position of `kept[0]`
+  let offset = 0;
+  return (position) => {
+    while (offset + kept.length <= position) {
+      kept.push(values.next().value as T);
+      if (kept.length > 2 * reach + 1) {
+        kept.shift();
+        offset++;
+      }
+    }
+    return kept[position - offset];
+  };
+};
+
+type ListLike<T> = ImmutableList<T> | List<T>;
+
+const toList = <T>(list: ListLike<T>): List<T> =>
+  list instanceof ImmutableList ? list.toMutable() : list;
+
+const nested = <T>(lists: List<List<T>>): ImmutableList<ImmutableList<T>> =>
+  ImmutableList.from(Array.from(lists, (list) => list.toImmutable()));
+
+class ImmutableList<T> implements Iterable<T> {
+  private readonly root: Node<T> | null;
+
+  private constructor(root: Node<T> | null) {
+    this.root = root;
+  }
+
+  public static from<T>(items: Iterable<T> = []): ImmutableList<T> {
+    const array = Array.isArray(items) ? (items as T[]) : Array.from(items);
+    return new ImmutableList(build(array, 0, array.length));
+  }
+
+  public static of<T>(...items: T[]): ImmutableList<T> {
+    return ImmutableList.from(items);
+  }
+
+  private withRoot(root: Node<T> | null): ImmutableList<T> {
+    return root === this.root ? this : new ImmutableList(root);
+  }
+
+  // Resolve a possibly negative index; returns -1 when out of range
+  private resolveIndex(index: number): number {
+    const resolved = index < 0 ? this.length + index : index;
+    return resolved >= 0 && resolved < this.length ? resolved : -1;
+  }
+
+  // Whether `items` holds this list's elements (by Object.is) in the same order
+  private sameAs(items: Iterable<T>): boolean {
+    const own = walk(this.root);
+    for (const item of items) {
+      const next = own.next();
+      if (next.done || !Object.is(next.value, item)) return false;
+    }
+    return own.next().done === true;
+  }
+
+  // Replace the contents with `items`, or return this list if nothing changed
+  private withItems(items: T[]): ImmutableList<T> {
+    return items.length === this.length && this.sameAs(items) ? this : ImmutableList.from(items);
+  }
+
+  // Like `withItems`, for a List result, which becomes the tree without another copy
+  private withList(list: List<T>): ImmutableList<T> {
+    return list.length === this.length && this.sameAs(list) ? this : list.toImmutable();
+  }
+
+  get length(): number {
+    return sizeOf(this.root);
+  }
+
+  get first(): T | undefined {
+    return this.at(0);
+  }
+
+  get last(): T | undefined {
+    return this.at(-1);
+  }
+
+  isEmpty(predicate?: (value: T) => boolean): boolean {
+    if (predicate) return this.every((value) => !predicate(value));
+    return this.length === 0;
+  }
+
+  at(index: number | ((length: number) => number)): T | undefined {
+    if (typeof index === 'function') {
+      index = index(this.length);
+    }
+    const resolved = this.resolveIndex(index);
+    return resolved === -1 ? undefined : nodeAt(this.root, resolved)!.value;
+  }
+
+  set(index: number, value: T): ImmutableList<T> {
+    const resolved = this.resolveIndex(index);
+    if (resolved === -1) {
+      throw new ListRangeError(`Index ${index} is out of bounds`);
+    }
+    if (Object.is(nodeAt(this.root, resolved)!.value, value)) return this;
+    return this.withRoot(setAt(this.root!, resolved, value));
+  }
+
+  push(...elements: T[]): ImmutableList<T> {
+    if (elements.length === 0) return this;
+    if (elements.length === 1) return this.withRoot(join(this.root, elements[0], null));
+    return this.withRoot(concatTrees(this.root, build(elements, 0, elements.length)));
+  }
+
+  unshift(...elements: T[]): ImmutableList<T> {
+    if (elements.length === 0) return this;
+    return this.withRoot(concatTrees(build(elements, 0, elements.length), this.root));
+  }
+
+  insert(element: T, index: number): ImmutableList<T> {
+    const position = index < 0 ? Math.max(this.length + index, 0) : Math.min(index, this.length);
+    const [left, right] = split(this.root, position);
+    return this.withRoot(join(left, element, right));
+  }
+
+  remove(index: number): ImmutableList<T> {
+    const resolved = this.resolveIndex(index);
+    if (resolved === -1) return this;
+    const [left, rest] = split(this.root, resolved);
+    const [, right] = split(rest, 1);
+    return this.withRoot(concatTrees(left, right));
+  }
+
+  pop(): ImmutableList<T> {
+    return this.remove(-1);
+  }
+
+  shift(): ImmutableList<T> {
+    return this.remove(0);
+  }
+
+  slice(start: number = 0, end: number = this.length): ImmutableList<T> {
+    const length = this.length;
+    const from = start < 0 ? Math.max(length + start, 0) : Math.min(start, length);
+    const to = end < 0 ? Math.max(length + end, 0) : Math.min(end, length);
+    if (from === 0 && to >= length) return this;
+    if (to <= from) return this.withRoot(null);
+    const [head] = split(this.root, to);
+    return this.withRoot(split(head, from)[1]);
+  }
+
+  concat(...lists: (ImmutableList<T> | List<T>)[]): ImmutableList<T> {
+    let root = this.root;
+    for (const list of lists) {
+      const other = list instanceof ImmutableList ? list : ImmutableList.from(list);
+      root = concatTrees(root, other.root);
+    }
+    return this.withRoot(root);
+  }
+
+  // Sorting needs an array, so it sorts one List copy and builds the tree from it
+  sort(
+    directionOrCompare?: SortDirection | ((a: T, b: T) => number),
+    method?: SortMethod
+  ): ImmutableList<T> {
+    return this.withList(this.toMutable().sort(directionOrCompare, method));
+  }
+
+  // Same as `sort`, which already leaves this list unchanged
+  toSorted(
+    directionOrCompare?: SortDirection | ((a: T, b: T) => number),
+    method?: SortMethod
+  ): ImmutableList<T> {
+    return this.sort(directionOrCompare, method);
+  }
+
+  sortBy(keys: SortKey<T> | SortKey<T>[], method?: SortMethod): ImmutableList<T> {
+    return this.withList(this.toMutable().sortBy(keys, method));
+  }
+
+  shuffle(options: RandomOptions = {}): ImmutableList<T> {
+    return this.withItems(shuffleInPlace(this.toArray(), options.random ?? Math.random));
+  }
+
+  rotate(k: number): ImmutableList<T> {
+    if (this.length === 0) return this;
+    k = k % this.length;
+    if (k < 0) k += this.length;
+    if (k === 0) return this;
+    const [head, tail] = split(this.root, this.length - k);
+    return this.withRoot(concatTrees(tail, head));
+  }
+
+  reverse(): ImmutableList<T> {
+    return this.withItems(this.toArray().reverse());
+  }
+
+  fill(value: T, start?: number, end?: number): ImmutableList<T> {
+    return this.withItems(this.toArray().fill(value, start, end));
+  }
+
+  // Callback-based methods walk the tree once, in order; `context.list` is a List copy that
+  // is only made when a callback reads it
+  each<R = void>(callback: EachCallback<T, void>, options: EachOptions = {}): R | undefined {
+    return this.visit(callback, options, () => undefined) as R | undefined;
+  }
+
+  private visit<R>(
+    callback: EachCallback<T, R>,
+    options: EachOptions,
+    onResult: (result: R, value: T, index: number) => 'stop' | void
+  ): unknown {
+    const bounds = iterationBounds(options, this.length, List.strict);
+    const valueAt = sequentialReader(this.visited(bounds), options.window ?? 0);
+    let list: List<T> | undefined;
+    return visit(bounds, options, valueAt, () => (list ??= this.toMutable()), callback, onResult);
+  }
+
+  // The elements at the visited indices, walking only the part of the tree they span
+  private *visited(bounds: IterationBounds): Generator<T> {
+    const { first, step, count } = bounds;
+    if (count === 0) return;
+    if (!Number.isInteger(step)) {
+      // As in a List, fractional indices hold no element
+      for (let position = 0; position < count; position++) {
+        const index = first + position * step;
+        yield (Number.isInteger(index) ? nodeAt(this.root, index)!.value : undefined) as T;
+      }
+      return;
+    }
+
+    const last = first + (count - 1) * step;
+    const [head] = split(this.root, Math.max(first, last) + 1);
+    const [, span] = split(head, Math.min(first, last));
+    let offset = 0;
+    for (const value of walk(span, step < 0)) {
+      if (offset++ % step === 0) yield value;
+    }
+  }
+
+  map<U>(callback: EachCallback<T, U>, options: EachOptions = {}): ImmutableList<U> {
+    const result: U[] = [];
+    this.visit(callback, options, (mapped) => {
+      result.push(mapped);
+    });
+    return ImmutableList.from(result);
+  }
+
+  filter<S extends T>(predicate: EachGuard<T, S>, options?: EachOptions): ImmutableList<S>;
+  filter(predicate: EachCallback<T, boolean>, options?: EachOptions): ImmutableList<T>;
+  filter(predicate: EachCallback<T, boolean>, options: EachOptions = {}): ImmutableList<T> {
+    const result: T[] = [];
+    this.visit(predicate, options, (passed, value) => {
+      if (passed) result.push(value);
+    });
+    return this.withItems(result);
+  }
+
+  find<S extends T>(predicate: EachGuard<T, S>, options?: EachOptions): S | undefined;
+  find(predicate: EachCallback<T, boolean>, options?: EachOptions): T | undefined;
+  find(predicate: EachCallback<T, boolean>, options: EachOptions = {}): T | undefined {
+    let result: T | undefined;
+    this.visit(predicate, options, (passed, value) => {
+      if (!passed) return;
+      result = value;
+      return 'stop';
+    });
+    return result;
+  }
+
+  findIndex(predicate: EachCallback<T, boolean>, options: EachOptions = {}): number {
+    let result = -1;
+    this.visit(predicate, options, (passed, _value, index) => {
+      if (!passed) return;
+      result = index;
+      return 'stop';
+    });
+    return result;
+  }
+
+  every(predicate: EachCallback<T, boolean>, options: EachOptions = {}): boolean {
+    let result = true;
+    this.visit(predicate, options, (passed) => {
+      if (passed) return;
+      result = false;
+      return 'stop';
+    });
+    return result;
+  }
+
+  some(predicate: EachCallback<T, boolean>, options: EachOptions = {}): boolean {
+    let result = false;
+    this.visit(predicate, options, (passed) => {
+      if (!passed) return;
+      result = true;
+      return 'stop';
+    });
+    return result;
+  }
+
+  reduce<U>(
+    callback: (accumulator: U, value: T, index: number, context: EachContext<T>) => U,
+    initialValue: U,
+    options: EachOptions = {}
+  ): U {
+    let accumulator = initialValue;
+    this.visit(
+      (value, index, context) => callback(accumulator, value, index, context),
+      options,
+      (next) => {
+        accumulator = next;
+      }
+    );
+    return accumulator;
+  }
+
+  indexOf(searchElement: T, fromIndex: number = 0): number {
+    let index = fromIndex < 0 ? Math.max(this.length + fromIndex, 0) : Math.trunc(fromIndex);
+    for (const value of walk(split(this.root, index)[1])) {
+      if (value === searchElement) return index;
+      index++;
+    }
+    return -1;
+  }
+
+  lastIndexOf(searchElement: T, fromIndex: number = this.length - 1): number {
+    let index =
+      fromIndex < 0 ? this.length + fromIndex : Math.min(Math.trunc(fromIndex), this.length - 1);
+    for (const value of walk(split(this.root, index + 1)[0], true)) {
+      if (value === searchElement) return index;
+      index--;
+    }
+    return -1;
+  }
+
+  includes(searchElement: T): boolean {
+    return this.indexOf(searchElement) !== -1;
+  }
+
+  join(separator: string, options?: { trailing?: boolean; starting?: boolean }): string {
+    let result = '';
+    let index = 0;
+    for (const value of this) {
+      if (index++ > 0) result += separator;
+      // Like Array's `join`, null and undefined become empty strings
+      result += value === null || value === undefined ? '' : String(value);
+    }
+    if (options?.starting) result = separator + result;
+    if (options?.trailing) result += separator;
+    return result;
+  }
+
+  // Whole-list methods below run List's implementation on one List copy, since they need all
+  // the elements anyway, and return ImmutableLists
+
+  get unique(): ImmutableList<T> {
+    return this.withList(this.toMutable().unique);
+  }
+
+  uniqueBy(keyOrMatcher: ((item: T) => unknown) | SetMatcher<T>): ImmutableList<T> {
+    return this.withList(this.toMutable().uniqueBy(keyOrMatcher));
+  }
+
+  chunk(size: number): ImmutableList<ImmutableList<T>> {
+    return nested(this.toMutable().chunk(size));
+  }
+
+  slidingWindow(windowSize: number, options?: WindowOptions): ImmutableList<ImmutableList<T>> {
+    return nested(this.toMutable().slidingWindow(windowSize, options));
+  }
+
+  groupBy<K>(keyFn: (item: T) => K, equality?: EqualityStrategy<K>): Map<K, ImmutableList<T>> {
+    const groups = new Map<K, ImmutableList<T>>();
+    this.toMutable()
+      .groupBy(keyFn, equality)
+      .forEach((group, key) => groups.set(key, group.toImmutable()));
+    return groups;
+  }
+
+  flat<D extends number = 1>(depth?: D): ImmutableList<Flattened<T, D>> {
+    return this.toMutable().flat(depth).toImmutable();
+  }
+
+  // Zip with other ImmutableLists, Lists or arrays into tuples, stopping at the shortest
+  zip<U extends unknown[]>(
+    ...others: { [K in keyof U]: ImmutableList<U[K]> | ZipSources<U>[K] }
+  ): ImmutableList<[T, ...U]> {
+    const sources = (others as readonly unknown[]).map((other) =>
+      other instanceof ImmutableList ? other.toArray() : other
+    ) as unknown as ZipSources<U>;
+    return this.toMutable()
+      .zip<U>(...sources)
+      .toImmutable();
+  }
+
+  partition<S extends T>(
+    predicate: (item: T) => item is S
+  ): [ImmutableList<S>, ImmutableList<Exclude<T, S>>];
+  partition(predicate: (item: T) => boolean): [ImmutableList<T>, ImmutableList<T>];
+  partition<S extends T>(
+    predicate: (item: T) => boolean
+  ): [ImmutableList<S>, ImmutableList<Exclude<T, S>>] | [ImmutableList<T>, ImmutableList<T>] {
+    const [passed, failed] = this.toMutable().partition(predicate);
+    return [this.withList(passed), this.withList(failed)];
+  }
+
+  // Set operations match elements like List's, by SameValueZero, a key or `{ key | equals }`
+
+  union(other: ListLike<T>, options?: ((item: T) => unknown) | SetOptions<T>): ImmutableList<T> {
+    return this.withList(this.toMutable().union(toList(other), options));
+  }
+
+  intersection(
+    other: ListLike<T>,
+    options?: ((item: T) => unknown) | SetOptions<T>
+  ): ImmutableList<T> {
+    return this.withList(this.toMutable().intersection(toList(other), options));
+  }
+
+  difference(
+    other: ListLike<T>,
+    options?: ((item: T) => unknown) | SetOptions<T>
+  ): ImmutableList<T> {
+    return this.withList(this.toMutable().difference(toList(other), options));
+  }
+
+  symmetricDifference(
+    other: ListLike<T>,
+    options?: ((item: T) => unknown) | SetOptions<T>
+  ): ImmutableList<T> {
+    return this.withList(this.toMutable().symmetricDifference(toList(other), options));
+  }
+
+  isSubsetOf(other: ListLike<T>, options?: ((item: T) => unknown) | SetOptions<T>): boolean {
+    return this.toMutable().isSubsetOf(toList(other), options);
+  }
+
+  isSupersetOf(other: ListLike<T>, options?: ((item: T) => unknown) | SetOptions<T>): boolean {
+    return this.toMutable().isSupersetOf(toList(other), options);
+  }
+
+  isDisjointFrom(other: ListLike<T>, options?: ((item: T) => unknown) | SetOptions<T>): boolean {
+    return this.toMutable().isDisjointFrom(toList(other), options);
+  }
+
+  get sum(): number {
+    return this.toMutable().sum;
+  }
+
+  get average(): number {
+    return this.toMutable().average;
+  }
+
+  get median(): number {
+    return this.toMutable().median;
+  }
+
+  get mode(): T | undefined {
+    return this.toMutable().mode;
+  }
+
+  get range(): number {
+    return this.toMutable().range;
+  }
+
+  get cumulativeSum(): ImmutableList<number> {
+    return this.toMutable().cumulativeSum.toImmutable();
+  }
+
+  // Statistics take no accessor on numeric lists, or an accessor for any other list
+
+  variance(this: ImmutableList<number>, options?: VarianceOptions): number;
+  variance(accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  variance(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.variance(opts);
+  }
+
+  standardDeviation(this: ImmutableList<number>, options?: VarianceOptions): number;
+  standardDeviation(accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  standardDeviation(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.standardDeviation(opts);
+  }
+
+  quantile(this: ImmutableList<number>, q: number, options?: QuantileOptions): number;
+  quantile(q: number, accessor: StatsAccessor<T>, options?: QuantileOptions): number;
+  quantile(
+    q: number,
+    accessorOrOptions?: StatsAccessor<T> | QuantileOptions,
+    options?: QuantileOptions
+  ): number {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.quantile(q, opts);
+  }
+
+  percentile(this: ImmutableList<number>, p: number, options?: QuantileOptions): number;
+  percentile(p: number, accessor: StatsAccessor<T>, options?: QuantileOptions): number;
+  percentile(
+    p: number,
+    accessorOrOptions?: StatsAccessor<T> | QuantileOptions,
+    options?: QuantileOptions
+  ): number {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.percentile(p, opts);
+  }
+
+  iqr(this: ImmutableList<number>, options?: QuantileOptions): number;
+  iqr(accessor: StatsAccessor<T>, options?: QuantileOptions): number;
+  iqr(accessorOrOptions?: StatsAccessor<T> | QuantileOptions, options?: QuantileOptions): number {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.iqr(opts);
+  }
+
+  skewness(this: ImmutableList<number>, options?: VarianceOptions): number;
+  skewness(accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  skewness(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.skewness(opts);
+  }
+
+  kurtosis(this: ImmutableList<number>, options?: VarianceOptions): number;
+  kurtosis(accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  kurtosis(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.kurtosis(opts);
+  }
+
+  zScores(this: ImmutableList<number>, options?: VarianceOptions): ImmutableList<number>;
+  zScores(accessor: StatsAccessor<T>, options?: VarianceOptions): ImmutableList<number>;
+  zScores(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): ImmutableList<number> {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.zScores(opts).toImmutable();
+  }
+
+  covariance(
+    this: ImmutableList<number>,
+    other: ListLike<number>,
+    options?: VarianceOptions
+  ): number;
+  covariance(
+    other: ListLike<number>,
+    accessor: StatsAccessor<T>,
+    options?: VarianceOptions
+  ): number;
+  covariance(
+    other: ListLike<number>,
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.covariance(toList(other), opts);
+  }
+
+  correlation(this: ImmutableList<number>, other: ListLike<number>): number;
+  correlation(other: ListLike<number>, accessor: StatsAccessor<T>): number;
+  correlation(other: ListLike<number>, accessor?: StatsAccessor<T>): number {
+    return this.numbers(accessor)[0].correlation(toList(other));
+  }
+
+  geometricMean(this: ImmutableList<number>): number;
+  geometricMean(accessor: StatsAccessor<T>): number;
+  geometricMean(accessor?: StatsAccessor<T>): number {
+    return this.numbers(accessor)[0].geometricMean();
+  }
+
+  harmonicMean(this: ImmutableList<number>): number;
+  harmonicMean(accessor: StatsAccessor<T>): number;
+  harmonicMean(accessor?: StatsAccessor<T>): number {
+    return this.numbers(accessor)[0].harmonicMean();
+  }
+
+  describe(this: ImmutableList<number>, options?: VarianceOptions): Description;
+  describe(accessor: StatsAccessor<T>, options?: VarianceOptions): Description;
+  describe(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): Description {
+    const [values, opts] = this.numbers(accessorOrOptions, options);
+    return values.describe(opts);
+  }
+
+  // The numbers statistics run on: the accessor's results, or the elements of a numeric list,
+  // which List checks
+  private numbers<O extends object>(
+    accessorOrOptions?: StatsAccessor<T> | O,
+    options?: O
+  ): [List<number>, O | undefined] {
+    if (typeof accessorOrOptions === 'function') {
+      return [List.from(this, (item) => accessorOrOptions(item)), options];
+    }
+    return [this.toMutable() as unknown as List<number>, accessorOrOptions];
+  }
+
+  permutations(k: number = this.length): ImmutableList<ImmutableList<T>> {
+    return nested(this.toMutable().permutations(k));
+  }
+
+  distinctPermutations(): ImmutableList<ImmutableList<T>> {
+    return nested(this.toMutable().distinctPermutations());
+  }
+
+  combinations(k: number): ImmutableList<ImmutableList<T>> {
+    return nested(this.toMutable().combinations(k));
+  }
+
+  combinationsWithRepetition(k: number): ImmutableList<ImmutableList<T>> {
+    return nested(this.toMutable().combinationsWithRepetition(k));
+  }
+
+  powerSet(): ImmutableList<ImmutableList<T>> {
+    return nested(this.toMutable().powerSet());
+  }
+
+  cartesianProduct<U extends unknown[]>(
+    ...lists: { [I in keyof U]: ListLike<U[I]> }
+  ): ImmutableList<[T, ...U]> {
+    const sources = (lists as ListLike<unknown>[]).map(toList) as {
+      [I in keyof U]: List<U[I]>;
+    };
+    return this.toMutable()
+      .cartesianProduct<U>(...sources)
+      .toImmutable();
+  }
+
+  partitions(blocks?: number): ImmutableList<ImmutableList<ImmutableList<T>>> {
+    return ImmutableList.from(
+      Array.from(this.toMutable().partitions(blocks), (partition) => nested(partition))
+    );
+  }
+
+  countPermutations(k: number = this.length): bigint {
+    return this.toMutable().countPermutations(k);
+  }
+
+  countDistinctPermutations(): bigint {
+    return this.toMutable().countDistinctPermutations();
+  }
+
+  countCombinations(k: number, options?: { repetition?: boolean }): bigint {
+    return this.toMutable().countCombinations(k, options);
+  }
+
+  permutationAt(index: number | bigint, k: number = this.length): ImmutableList<T> {
+    return this.toMutable().permutationAt(index, k).toImmutable();
+  }
+
+  permutationIndex(permutation: ListLike<T> | T[]): bigint {
+    const items = permutation instanceof ImmutableList ? permutation.toArray() : permutation;
+    return this.toMutable().permutationIndex(items);
+  }
+
+  combinationAt(index: number | bigint, k: number): ImmutableList<T> {
+    return this.toMutable().combinationAt(index, k).toImmutable();
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return walk(this.root);
+  }
+
+  [Symbol.toStringTag] = 'ImmutableList';
+
+  toString(): string {
+    return `[${this.toArray().join(', ')}]`;
+  }
+
+  [Symbol.for('nodejs.util.inspect.custom')](): string {
+    return this.toString();
+  }
+
+  toJSON(): T[] {
+    return this.toArray();
+  }
+
+  toArray(): T[] {
+    return Array.from(this);
+  }
+
+  toMutable(): List<T> {
+    return new List(this.toArray());
+  }
+}
+
+export default ImmutableList;
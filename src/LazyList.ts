@@ -0,0 +1,256 @@
+import List from './List';
+import { combinationIndices, permutationIndices, powerSetIndices } from './combinatorics';
+import { ListArgumentError } from './errors';
+
+type LazyCallback<T, R> = (value: T, index: number) => R;
+
+// A deferred pipeline over an iterable source. Each stage wraps the previous one
+// in a generator, so all stages run in a single pass and nothing is buffered
+// until a terminal method (`toList`, `toArray`, `reduce`, `first`, ...) pulls values.
+class LazyList<T> implements Iterable<T> {
+  private readonly source: () => Iterable<T>;
+
+  constructor(source: Iterable<T> | (() => Iterable<T>)) {
+    this.source = typeof source === 'function' ? source : () => source;
+  }
+
+  public static of<T>(...items: T[]): LazyList<T> {
+    return new LazyList(items);
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    yield* this.source();
+  }
+
+  [Symbol.toStringTag] = 'LazyList';
+
+  private pipe<U>(stage: (input: Iterable<T>) => Iterable<U>): LazyList<U> {
+    return new LazyList(() => stage(this.source()));
+  }
+
+  // Buffer the input, then map each index selection onto its elements
+  private select(selections: (n: number) => Iterable<number[]>): LazyList<List<T>> {
+    return this.pipe(function* (input) {
+      const items = Array.from(input);
+      for (const indices of selections(items.length)) {
+        yield new List(indices.map((i) => items[i]));
+      }
+    });
+  }
+
+  // Transform each element
+  map<U>(callback: LazyCallback<T, U>): LazyList<U> {
+    return this.pipe(function* (input) {
+      let index = 0;
+      for (const value of input) {
+        yield callback(value, index++);
+      }
+    });
+  }
+
+  // Keep only elements that pass the predicate
+  filter<S extends T>(predicate: (value: T, index: number) => value is S): LazyList<S>;
+  filter(predicate: LazyCallback<T, boolean>): LazyList<T>;
+  filter(predicate: LazyCallback<T, boolean>): LazyList<T> {
+    return this.pipe(function* (input) {
+      let index = 0;
+      for (const value of input) {
+        if (predicate(value, index++)) yield value;
+      }
+    });
+  }
+
+  // Map each element to an iterable and flatten the results by one level
+  flatMap<U>(callback: LazyCallback<T, Iterable<U>>): LazyList<U> {
+    return this.pipe(function* (input) {
+      let index = 0;
+      for (const value of input) {
+        yield* callback(value, index++);
+      }
+    });
+  }
+
+  // Take the first n elements, then stop pulling from the source
+  take(n: number): LazyList<T> {
+    return this.pipe(function* (input) {
+      if (n <= 0) return;
+      let taken = 0;
+      for (const value of input) {
+        yield value;
+        if (++taken >= n) return;
+      }
+    });
+  }
+
+  // Skip the first n elements
+  skip(n: number): LazyList<T> {
+    return this.pipe(function* (input) {
+      let skipped = 0;
+      for (const value of input) {
+        if (skipped < n) {
+          skipped++;
+          continue;
+        }
+        yield value;
+      }
+    });
+  }
+
+  // Take elements while the predicate holds
+  takeWhile(predicate: LazyCallback<T, boolean>): LazyList<T> {
+    return this.pipe(function* (input) {
+      let index = 0;
+      for (const value of input) {
+        if (!predicate(value, index++)) return;
+        yield value;
+      }
+    });
+  }
+
+  // Skip elements while the predicate holds
+  skipWhile(predicate: LazyCallback<T, boolean>): LazyList<T> {
+    return this.pipe(function* (input) {
+      let index = 0;
+      let skipping = true;
+      for (const value of input) {
+        if (skipping && predicate(value, index++)) continue;
+        skipping = false;
+        yield value;
+      }
+    });
+  }
+
+  // Group elements into lists of a given size (the last one may be shorter)
+  chunk(size: number): LazyList<List<T>> {
+    if (!(size > 0)) {
+      throw new ListArgumentError('Chunk size must be greater than 0');
+    }
+    return this.pipe(function* (input) {
+      let buffer: T[] = [];
+      for (const value of input) {
+        buffer.push(value);
+        if (buffer.length >= size) {
+          yield new List(buffer);
+          buffer = [];
+        }
+      }
+      if (buffer.length > 0) yield new List(buffer);
+    });
+  }
+
+  // Generate sliding windows of a given size
+  slidingWindow(windowSize: number): LazyList<List<T>> {
+    if (!(windowSize > 0)) {
+      throw new ListArgumentError('Window size must be greater than 0');
+    }
+    return this.pipe(function* (input) {
+      const window: T[] = [];
+      for (const value of input) {
+        window.push(value);
+        if (window.length > windowSize) window.shift();
+        if (window.length === windowSize) yield new List(window.slice());
+      }
+    });
+  }
+
+  // Lazily generate all permutations of k elements, in the same order as `List.permutations`
+  permutations(k?: number): LazyList<List<T>> {
+    return this.select((n) => permutationIndices(n, k ?? n));
+  }
+
+  // Lazily generate all combinations of k elements, in the same order as `List.combinations`
+  combinations(k: number): LazyList<List<T>> {
+    return this.select((n) => combinationIndices(n, k));
+  }
+
+  // Lazily generate every subset, in the same order as `List.powerSet`
+  powerSet(): LazyList<List<T>> {
+    return this.select((n) => powerSetIndices(n));
+  }
+
+  // Lazily generate all contiguous sublists, in the same order as `List.sublists`
+  sublists(): LazyList<List<T>> {
+    return this.pipe(function* (input) {
+      const items = Array.from(input);
+      yield new List<T>();
+      for (let i = 0; i < items.length; i++) {
+        for (let j = i; j < items.length; j++) {
+          yield new List(items.slice(i, j + 1));
+        }
+      }
+    });
+  }
+
+  // Run the pipeline and collect the results into a List
+  toList(): List<T> {
+    return new List(this.toArray());
+  }
+
+  // Run the pipeline and collect the results into an array
+  toArray(): T[] {
+    return Array.from(this.source());
+  }
+
+  reduce<U>(callback: (accumulator: U, value: T, index: number) => U, initialValue: U): U {
+    let accumulator = initialValue;
+    let index = 0;
+    for (const value of this.source()) {
+      accumulator = callback(accumulator, value, index++);
+    }
+    return accumulator;
+  }
+
+  // Get the first element, pulling only as much of the pipeline as needed
+  first(): T | undefined {
+    for (const value of this.source()) {
+      return value;
+    }
+    return undefined;
+  }
+
+  find<S extends T>(predicate: (value: T, index: number) => value is S): S | undefined;
+  find(predicate: LazyCallback<T, boolean>): T | undefined;
+  find(predicate: LazyCallback<T, boolean>): T | undefined {
+    let index = 0;
+    for (const value of this.source()) {
+      if (predicate(value, index++)) return value;
+    }
+    return undefined;
+  }
+
+  some(predicate: LazyCallback<T, boolean>): boolean {
+    return this.findIndex(predicate) !== -1;
+  }
+
+  every(predicate: LazyCallback<T, boolean>): boolean {
+    let index = 0;
+    for (const value of this.source()) {
+      if (!predicate(value, index++)) return false;
+    }
+    return true;
+  }
+
+  findIndex(predicate: LazyCallback<T, boolean>): number {
+    let index = 0;
+    for (const value of this.source()) {
+      if (predicate(value, index)) return index;
+      index++;
+    }
+    return -1;
+  }
+
+  count(): number {
+    let count = 0;
+    for (const _ of this.source()) count++;
+    return count;
+  }
+
+  each(callback: LazyCallback<T, void>): void {
+    let index = 0;
+    for (const value of this.source()) {
+      callback(value, index++);
+    }
+  }
+}
+
+export default LazyList;
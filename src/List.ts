@@ -1,10 +1,81 @@
+import type { Readable } from 'stream';
+import GroupedList from './GroupedList';
+import ImmutableList from './ImmutableList';
+import LazyList from './LazyList';
+import Matrix from './Matrix';
+import type { Aggregator } from './aggregate';
+import { createBag, uniqueItems } from './bag';
+import * as combinatorics from './combinatorics';
+import type { SetMatcher, SetOptions } from './bag';
+import { binCategories, binValues } from './binning';
+import { deepClone, unwrapLists } from './clone';
+import type { Bin, BinOptions, CategoryBin, CategoryBinOptions } from './binning';
+import * as sequences from './diff';
+import type { CommonSubstring, DiffOptions, EditDistanceOptions, Patch } from './diff';
+import { HashMap, resolveEquality, sameValueZero } from './equality';
+import type { Equality, EqualityStrategy } from './equality';
+import {
+  ListAggregateError,
+  ListArgumentError,
+  ListError,
+  ListTypeError,
+  assertIndex,
+  assertNumeric,
+  assertSize,
+} from './errors';
+import {
+  applyEdit,
+  createHistory,
+  historyLimit,
+  invertEdit,
+  pushStep,
+  recordEdit,
+  reorderOf,
+  spliceBetween,
+  trimHistory,
+} from './history';
+import type { History, HistoryOptions, ListEdit } from './history';
+import {
+  LoopSignal,
+  abortReason,
+  createContext,
+  createLoop,
+  iterationBounds,
+  visit,
+} from './iteration';
+import type { IterationBounds, PositionReader } from './iteration';
+import * as linalg from './linalg';
+import * as randomness from './random';
+import type { RandomOptions, RandomSource, SampleOptions } from './random';
+import { parse, parseCSV, parseNDJSON, serialize, toCSV, toNDJSON } from './serialization';
+import type {
+  CsvParseOptions,
+  CsvWriteOptions,
+  JSONReviver,
+  ParseOptions,
+  SerializeOptions,
+} from './serialization';
+import * as stats from './stats';
+import { readBatches } from './streams';
+import type { StreamBatchOptions, StreamWriteOptions } from './streams';
+import type { Description, QuantileOptions, VarianceOptions } from './stats';
+
+// Neighbors, indices and first/last refer to the visited sequence (after `start`, `end`,
+// `step` and `reverse`), not to the whole list
 type EachContext<T> = {
   prevIndex: number | undefined;
   nextIndex: number | undefined;
   prev: T | undefined;
   next: T | undefined;
-  breakFn: () => void;
-  continueFn: () => void;
+  // Up to `window` neighbors on each side, nearest last in `before` and nearest first in `after`
+  before: T[];
+  after: T[];
+  // End the iteration here, skipping the rest of the callback
+  breakFn: () => never;
+  // Skip the rest of this callback and move on to the next element
+  continueFn: () => never;
+  // Use `value` as this callback's result, then end the iteration; `each` returns it
+  stop: (value?: unknown) => never;
   list: List<T>;
   isFirst: boolean;
   isLast: boolean;
@@ -15,13 +86,148 @@ type EachCallback<T, R> = (value: T, index: number, context: EachContext<T>) =>
 type EachOptions = {
   reverse?: boolean;
   step?: number;
+  // Index range to visit, with the same semantics as `slice`
+  start?: number;
+  end?: number;
+  // Throw the signal's reason before the next callback once it's aborted
+  signal?: AbortSignal;
+  // Number of neighbors on each side exposed as `before`/`after` (default: 0)
+  window?: number;
+};
+
+type AsyncOptions = EachOptions & {
+  // Maximum number of callbacks in flight at once (default: unbounded)
+  concurrency?: number;
+  // Emit results in list order rather than completion order (default: true)
+  preserveOrder?: boolean;
+  // 'fail-fast' rejects on the first error, 'collect' rejects with a ListAggregateError at the end
+  errorMode?: 'fail-fast' | 'collect';
+};
+
+type StatsAccessor<T> = (item: T) => number;
+
+// A typed array class such as `Float32Array` or `Uint8Array`
+type TypedArrayType<A> = { from(values: ArrayLike<number>): A };
+
+// A numeric vector operand
+type Vector = List<number> | readonly number[];
+
+type ListSnapshot<T> = {
+  readonly items: readonly T[];
 };
 
 type SortDirection = 'asc' | 'desc';
 type SortMethod = 'merge' | 'quick' | 'bubble' | 'insertion' | 'selection' | 'heap' | 'radix';
 
+type SortKeyOptions<T> = {
+  key: (item: T) => unknown;
+  direction?: SortDirection;
+  // Where null, undefined and NaN keys go, independent of direction (default: 'last')
+  nulls?: 'first' | 'last';
+  // Compare strings with this collator, or one built from `locale`
+  collator?: Intl.Collator;
+  locale?: string | string[];
+  // Compare digit runs numerically, so "file2" < "file10"
+  natural?: boolean;
+};
+
+type SortKey<T> = ((item: T) => unknown) | SortKeyOptions<T>;
+
+type WindowOptions = {
+  // Distance between the starts of consecutive windows (default: 1)
+  step?: number;
+  // Keep the shorter windows at the end instead of dropping them
+  partial?: boolean;
+};
+
+// A type predicate usable as an `EachCallback`, narrowing the elements to S
+type EachGuard<T, S extends T> = (value: T, index: number, context: EachContext<T>) => value is S;
+
+// One List or array per element of the tuple U
+type ZipSources<U extends unknown[]> = { [K in keyof U]: List<U[K]> | readonly U[K][] };
+type Unzipped<U extends unknown[]> = { [K in keyof U]: List<U[K]> };
+
+// FlatDepth[D] is D - 1
+type FlatDepth = [-1, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19];
+
+// Element type after flattening nested Lists and arrays to depth D, or fully for `number`
+type Flattened<T, D extends number = 1> = number extends D
+  ? DeepFlattened<T>
+  : {
+      done: T;
+      recur: T extends List<infer U> | readonly (infer U)[] ? Flattened<U, FlatDepth[D]> : T;
+    }[D extends 0 ? 'done' : 'recur'];
+
+type DeepFlattened<T> = T extends List<infer U> | readonly (infer U)[] ? DeepFlattened<U> : T;
+
+// Element type with nested Lists replaced by arrays
+type Unwrapped<T> = T extends List<infer U> | readonly (infer U)[] ? Unwrapped<U>[] : T;
+
+const isNullish = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'number' && Number.isNaN(value));
+
+// Order used between keys of different types
+const typeRank = (value: unknown): number => {
+  if (typeof value === 'boolean') return 0;
+  if (typeof value === 'number' || typeof value === 'bigint') return 1;
+  if (typeof value === 'string') return 2;
+  if (value instanceof Date) return 3;
+  return 4;
+};
+
+const createKeyCompare = <T>(
+  options: SortKeyOptions<T>
+): [(item: T) => unknown, (a: unknown, b: unknown) => number] => {
+  const { key, direction = 'asc', nulls = 'last', locale, natural = false } = options;
+  const collator =
+    options.collator ??
+    (locale !== undefined || natural ? new Intl.Collator(locale, { numeric: natural }) : undefined);
+  const sign = direction === 'asc' ? 1 : -1;
+
+  const compareValues = (a: unknown, b: unknown): number => {
+    const rankA = typeRank(a);
+    const rankB = typeRank(b);
+    if (rankA !== rankB) return rankA - rankB;
+
+    if (typeof a === 'string' && typeof b === 'string') {
+      if (collator) return collator.compare(a, b);
+      return a < b ? -1 : a > b ? 1 : 0;
+    }
+    if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+    if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+    if (
+      (typeof a === 'number' || typeof a === 'bigint') &&
+      (typeof b === 'number' || typeof b === 'bigint')
+    ) {
+      return a < b ? -1 : a > b ? 1 : 0;
+    }
+    return 0;
+  };
+
+  return [
+    key,
+    (a, b) => {
+      const nullA = isNullish(a);
+      const nullB = isNullish(b);
+      if (nullA || nullB) {
+        if (nullA && nullB) return 0;
+        return (nullA ? 1 : -1) * (nulls === 'last' ? 1 : -1);
+      }
+      return sign * compareValues(a, b);
+    },
+  ];
+};
+
 class List<T> {
-  private items: T[];
+  // Validate arguments strictly on every list without its own `useStrict` setting
+  public static strict = false;
+
+  protected items: T[];
+  private equality?: Equality<T>;
+  private strictMode?: boolean;
+  private rng?: RandomSource;
+  private history?: History<T>;
+  private transactionPending?: boolean;
 
   public static create<T>(initialItems?: T[] | Set<T>): List<T>;
   public static create<T>(...initialItems: T[]): List<T>;
@@ -43,6 +249,94 @@ class List<T> {
     return new List(initialItems as T[]);
   }
 
+  // Any iterable or array-like: Maps give their entries, strings their characters
+  public static from<T>(items: Iterable<T> | ArrayLike<T>): List<T>;
+  public static from<T, U>(
+    items: Iterable<T> | ArrayLike<T>,
+    mapFn: (item: T, index: number) => U
+  ): List<U>;
+  public static from<T, U>(
+    items: Iterable<T> | ArrayLike<T>,
+    mapFn?: (item: T, index: number) => U
+  ): List<T | U> {
+    return new List<T | U>(mapFn ? Array.from(items, mapFn) : Array.from(items));
+  }
+
+  // Collect an async iterable (or an iterable of promises) in order, awaiting `mapFn` per element
+  public static fromAsync<T>(
+    items: AsyncIterable<T> | Iterable<T | PromiseLike<T>>
+  ): Promise<List<T>>;
+  public static fromAsync<T, U>(
+    items: AsyncIterable<T> | Iterable<T | PromiseLike<T>>,
+    mapFn: (item: T, index: number) => U | PromiseLike<U>
+  ): Promise<List<U>>;
+  public static async fromAsync<T, U>(
+    items: AsyncIterable<T> | Iterable<T | PromiseLike<T>>,
+    mapFn?: (item: T, index: number) => U | PromiseLike<U>
+  ): Promise<List<T | U>> {
+    const result: (T | U)[] = [];
+    for await (const item of items) {
+      result.push(mapFn ? await mapFn(item, result.length) : item);
+    }
+    return new List(result);
+  }
+
+  // Numbers from `start` up to, not including, `end` (`range(n)` counts from 0 to n - 1);
+  // a negative step counts down
+  public static range(end: number): List<number>;
+  public static range(start: number, end: number, step?: number): List<number>;
+  public static range(start: number, end?: number, step: number = 1): List<number> {
+    if (end === undefined) [start, end] = [0, start];
+    if (step === 0 || Number.isNaN(step)) {
+      throw new ListArgumentError(`Range step must be a non-zero number, got ${step}`);
+    }
+    const length = Math.max(0, Math.ceil((end - start) / step));
+    return List.generate(length, (i) => start + i * step);
+  }
+
+  public static generate<T>(n: number, fn: (index: number) => T): List<T> {
+    return new List(Array.from({ length: n }, (_, index) => fn(index)));
+  }
+
+  // Build a list from a seed: `fn` returns the next element and state, or undefined to stop
+  public static unfold<T, S>(seed: S, fn: (state: S) => [T, S] | undefined | null): List<T> {
+    const result: T[] = [];
+    let next = fn(seed);
+    while (next) {
+      result.push(next[0]);
+      next = fn(next[1]);
+    }
+    return new List(result);
+  }
+
+  // `count` evenly spaced numbers from `start` to `end`, which is excluded when `endpoint` is false
+  public static linspace(
+    start: number,
+    end: number,
+    count: number = 50,
+    options: { endpoint?: boolean } = {}
+  ): List<number> {
+    const { endpoint = true } = options;
+    const intervals = endpoint ? count - 1 : count;
+    const step = intervals > 0 ? (end - start) / intervals : 0;
+    return List.generate(count, (i) =>
+      endpoint && i > 0 && i === count - 1 ? end : start + i * step
+    );
+  }
+
+  // Entries of a Map, any iterable of pairs, or an object's own enumerable string keys
+  public static fromEntries<K, V>(entries: Iterable<readonly [K, V]>): List<[K, V]>;
+  public static fromEntries<K extends string, V>(record: Record<K, V>): List<[K, V]>;
+  public static fromEntries<K, V>(
+    entries: Iterable<readonly [K, V]> | Record<string, V>
+  ): List<[K, V]> {
+    if (Symbol.iterator in entries) {
+      return List.from(entries as Iterable<readonly [K, V]>, ([key, value]) => [key, value]);
+    }
+    const record = entries as Record<string, V>;
+    return new List(Object.keys(record).map((key) => [key as unknown as K, record[key]]));
+  }
+
   constructor(initialItems?: T[] | Set<T>);
   constructor(...initialItems: T[]);
   constructor(...initialItems: T[] | [T[] | Set<T>] | []) {
@@ -61,29 +355,60 @@ class List<T> {
   }
 
   push(...elements: T[]): number {
+    this.recordEdit({ type: 'splice', index: this.items.length, removed: [], inserted: elements });
     return this.items.push(...elements);
   }
 
   insert(element: T, index: number): void {
+    if (this.isStrict) assertIndex(index, this.items.length, true);
+    index = this.clampIndex(index);
+    this.recordEdit({ type: 'splice', index, removed: [], inserted: [element] });
     this.items.splice(index, 0, element);
   }
 
   pop(): T | undefined {
-    return this.items.pop();
+    return this.items.length === 0 ? undefined : this.removeAt(this.items.length - 1);
   }
 
   remove(index: number): T | undefined {
-    return this.items.splice(index, 1)[0];
+    if (this.isStrict) assertIndex(index, this.items.length);
+    const resolved = this.clampIndex(index);
+    return resolved < this.items.length ? this.removeAt(resolved) : undefined;
   }
 
   shift(): T | undefined {
-    return this.items.shift();
+    return this.items.length === 0 ? undefined : this.removeAt(0);
   }
 
   unshift(...elements: T[]): number {
+    this.recordEdit({ type: 'splice', index: 0, removed: [], inserted: elements });
     return this.items.unshift(...elements);
   }
 
+  private removeAt(index: number): T {
+    const removed = this.items.splice(index, 1);
+    this.recordEdit({ type: 'splice', index, removed, inserted: [] });
+    return removed[0];
+  }
+
+  // Same clamping as Array.prototype.splice
+  protected clampIndex(index: number): number {
+    const { length } = this.items;
+    const relative = Math.trunc(index) || 0;
+    return relative < 0 ? Math.max(length + relative, 0) : Math.min(relative, length);
+  }
+
+  // In strict mode out-of-range indices, non-integer sizes and non-numeric elements in
+  // numeric operations throw instead of being padded, clamped or skipped
+  useStrict(enabled: boolean = true): this {
+    this.strictMode = enabled;
+    return this;
+  }
+
+  get isStrict(): boolean {
+    return this.strictMode ?? List.strict;
+  }
+
   get length(): number {
     return this.items.length;
   }
@@ -100,17 +425,23 @@ class List<T> {
 
   // Get a random element
   get random(): T | undefined {
-    return this.items[Math.floor(Math.random() * this.items.length)];
+    return this.items[randomness.randomIndex(this.randomSource(), this.items.length)];
   }
 
   // Get unique elements
   get unique(): List<T> {
+    if (this.equality) {
+      return new List(uniqueItems(this.items, this.equality));
+    }
     return new List([...new Set(this.items)]);
   }
 
   // Get the sum of all elements (if they are numbers)
   get sum(): number {
-    return this.items.reduce((acc, val) => acc + (typeof val === 'number' ? val : 0), 0);
+    if (this.isStrict) assertNumeric('Sum', this.items);
+    return stats.kahanSum(
+      this.items.filter((item): item is T & number => typeof item === 'number')
+    );
   }
 
   // Get the average of all elements (if they are numbers)
@@ -120,6 +451,7 @@ class List<T> {
 
   // Get the median of all elements (if they are numbers)
   get median(): number {
+    if (this.isStrict) assertNumeric('Median', this.items);
     const sorted = [...this.items].sort((a, b) =>
       typeof a === 'number' && typeof b === 'number' ? a - b : 0
     );
@@ -130,7 +462,7 @@ class List<T> {
   }
 
   get mode(): T | undefined {
-    const counts = new Map<T, number>();
+    const counts = new HashMap<T, number>(this.equality);
     let maxCount = 0;
     let modeValue: T | undefined;
 
@@ -169,6 +501,149 @@ class List<T> {
     return true;
   }
 
+  // Statistics below take no accessor on numeric lists, or an accessor for any other list
+
+  variance(this: List<number>, options?: VarianceOptions): number;
+  variance(accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  variance(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.statsArgs('Variance', accessorOrOptions, options);
+    return stats.variance(values, opts);
+  }
+
+  standardDeviation(this: List<number>, options?: VarianceOptions): number;
+  standardDeviation(accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  standardDeviation(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.statsArgs('Standard deviation', accessorOrOptions, options);
+    return stats.standardDeviation(values, opts);
+  }
+
+  // Get the q-th quantile, q in [0, 1]
+  quantile(this: List<number>, q: number, options?: QuantileOptions): number;
+  quantile(q: number, accessor: StatsAccessor<T>, options?: QuantileOptions): number;
+  quantile(
+    q: number,
+    accessorOrOptions?: StatsAccessor<T> | QuantileOptions,
+    options?: QuantileOptions
+  ): number {
+    const [values, opts] = this.statsArgs('Quantile', accessorOrOptions, options);
+    return stats.quantileSorted(stats.sortNumbers(values), q, opts.method);
+  }
+
+  // Get the p-th percentile, p in [0, 100]
+  percentile(this: List<number>, p: number, options?: QuantileOptions): number;
+  percentile(p: number, accessor: StatsAccessor<T>, options?: QuantileOptions): number;
+  percentile(
+    p: number,
+    accessorOrOptions?: StatsAccessor<T> | QuantileOptions,
+    options?: QuantileOptions
+  ): number {
+    const [values, opts] = this.statsArgs('Percentile', accessorOrOptions, options);
+    return stats.quantileSorted(stats.sortNumbers(values), p / 100, opts.method);
+  }
+
+  // Get the interquartile range (Q3 - Q1)
+  iqr(this: List<number>, options?: QuantileOptions): number;
+  iqr(accessor: StatsAccessor<T>, options?: QuantileOptions): number;
+  iqr(accessorOrOptions?: StatsAccessor<T> | QuantileOptions, options?: QuantileOptions): number {
+    const [values, opts] = this.statsArgs('IQR', accessorOrOptions, options);
+    const sorted = stats.sortNumbers(values);
+    return (
+      stats.quantileSorted(sorted, 0.75, opts.method) -
+      stats.quantileSorted(sorted, 0.25, opts.method)
+    );
+  }
+
+  skewness(this: List<number>, options?: VarianceOptions): number;
+  skewness(accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  skewness(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.statsArgs('Skewness', accessorOrOptions, options);
+    return stats.skewness(values, opts);
+  }
+
+  // Get the excess kurtosis
+  kurtosis(this: List<number>, options?: VarianceOptions): number;
+  kurtosis(accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  kurtosis(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.statsArgs('Kurtosis', accessorOrOptions, options);
+    return stats.kurtosis(values, opts);
+  }
+
+  zScores(this: List<number>, options?: VarianceOptions): List<number>;
+  zScores(accessor: StatsAccessor<T>, options?: VarianceOptions): List<number>;
+  zScores(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): List<number> {
+    const [values, opts] = this.statsArgs('Z-scores', accessorOrOptions, options);
+    return new List(stats.zScores(values, opts));
+  }
+
+  covariance(this: List<number>, other: List<number>, options?: VarianceOptions): number;
+  covariance(other: List<number>, accessor: StatsAccessor<T>, options?: VarianceOptions): number;
+  covariance(
+    other: List<number>,
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): number {
+    const [values, opts] = this.statsArgs('Covariance', accessorOrOptions, options);
+    return stats.covariance(values, other.statsArgs('Covariance')[0], opts);
+  }
+
+  // Get the Pearson correlation coefficient with another list
+  correlation(this: List<number>, other: List<number>): number;
+  correlation(other: List<number>, accessor: StatsAccessor<T>): number;
+  correlation(other: List<number>, accessor?: StatsAccessor<T>): number {
+    const [values] = this.statsArgs('Correlation', accessor);
+    return stats.correlation(values, other.statsArgs('Correlation')[0]);
+  }
+
+  geometricMean(this: List<number>): number;
+  geometricMean(accessor: StatsAccessor<T>): number;
+  geometricMean(accessor?: StatsAccessor<T>): number {
+    return stats.geometricMean(this.statsArgs('Geometric mean', accessor)[0]);
+  }
+
+  harmonicMean(this: List<number>): number;
+  harmonicMean(accessor: StatsAccessor<T>): number;
+  harmonicMean(accessor?: StatsAccessor<T>): number {
+    return stats.harmonicMean(this.statsArgs('Harmonic mean', accessor)[0]);
+  }
+
+  // Get a summary of count, mean, spread, quartiles and shape
+  describe(this: List<number>, options?: VarianceOptions): Description;
+  describe(accessor: StatsAccessor<T>, options?: VarianceOptions): Description;
+  describe(
+    accessorOrOptions?: StatsAccessor<T> | VarianceOptions,
+    options?: VarianceOptions
+  ): Description {
+    const [values, opts] = this.statsArgs('Describe', accessorOrOptions, options);
+    return stats.describe(values, opts);
+  }
+
+  private statsArgs<O extends object>(
+    name: string,
+    accessorOrOptions?: StatsAccessor<T> | O,
+    options?: O
+  ): [number[], O] {
+    if (typeof accessorOrOptions === 'function') {
+      return [this.items.map(accessorOrOptions), options ?? ({} as O)];
+    }
+    assertNumeric(name, this.items);
+    return [this.items as unknown as number[], accessorOrOptions ?? ({} as O)];
+  }
+
   isEmpty(predicate?: (value: T) => boolean): boolean {
     if (predicate) {
       return this.items.every((item) => !predicate(item));
@@ -180,6 +655,7 @@ class List<T> {
     if (typeof index === 'function') {
       index = index(this.length);
     }
+    if (this.isStrict) assertIndex(index, this.items.length);
     return this.items.at(index);
   }
 
@@ -198,8 +674,178 @@ class List<T> {
     return new List(this.items.concat(...lists.map((list) => list.items)));
   }
 
-  clone(): List<T> {
-    return this.slice();
+  // `deep` also copies the elements: nested Lists, arrays, objects, Maps, Sets, Dates and typed
+  // arrays, keeping shared references and cycles intact. Functions and ImmutableLists are shared.
+  clone(options: { deep?: boolean } = {}): List<T> {
+    return options.deep ? deepClone<List<T>>(this) : this.slice();
+  }
+
+  // Capture the current contents so they can be brought back with `restore`
+  snapshot(): ListSnapshot<T> {
+    return { items: this.items.slice() };
+  }
+
+  restore(snapshot: ListSnapshot<T>): this {
+    if (this.history) {
+      const edit = spliceBetween(this.items, snapshot.items);
+      if (edit) this.recordEdit(edit);
+    }
+    this.items = snapshot.items.slice();
+    return this;
+  }
+
+  // Run `fn` on the list and roll back its changes if it throws or its promise rejects.
+  // A synchronous rollback also drops the changes from the history. An asynchronous one
+  // restores the snapshot, discarding edits made meanwhile by other callers, and is recorded
+  // as a step of its own; no other transaction may start while one is pending.
+  transaction<R>(fn: (list: this) => R): R {
+    if (this.transactionPending) {
+      throw new ListError('Cannot start a transaction while an asynchronous one is pending');
+    }
+    const snapshot = this.snapshot();
+    const history = this.history;
+    const saved = history && {
+      undo: history.undo.slice(),
+      redo: history.redo.slice(),
+      grouped: history.group?.length ?? 0,
+    };
+    let result: R;
+    try {
+      result = this.batch(() => fn(this));
+    } catch (error) {
+      this.withoutHistory(() => this.restore(snapshot));
+      if (history && saved && history === this.history) {
+        history.undo = saved.undo;
+        history.redo = saved.redo;
+        history.group?.splice(saved.grouped);
+      }
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      this.transactionPending = true;
+      return result.then(
+        (value) => {
+          this.transactionPending = false;
+          return value;
+        },
+        (error) => {
+          this.transactionPending = false;
+          this.restore(snapshot);
+          throw error;
+        }
+      ) as unknown as R;
+    }
+    return result;
+  }
+
+  // Record changes so they can be undone. Each mutating call (or `batch`) is one step, kept as
+  // the elements it inserted and removed or the permutation it applied, not as a copy.
+  enableHistory(options: HistoryOptions = {}): this {
+    if (this.history) {
+      this.history.limit = historyLimit(options);
+      trimHistory(this.history);
+    } else {
+      this.history = createHistory(options);
+    }
+    return this;
+  }
+
+  disableHistory(): this {
+    this.history = undefined;
+    return this;
+  }
+
+  clearHistory(): this {
+    if (this.history) {
+      this.history.undo = [];
+      this.history.redo = [];
+    }
+    return this;
+  }
+
+  get canUndo(): boolean {
+    return (this.history?.undo.length ?? 0) > 0;
+  }
+
+  get canRedo(): boolean {
+    return (this.history?.redo.length ?? 0) > 0;
+  }
+
+  // Revert the last recorded step, returning false if there was nothing to undo
+  undo(): boolean {
+    const history = this.history;
+    const edits = this.replayable(history?.undo);
+    if (!history || !edits) return false;
+    this.withoutHistory(() =>
+      this.batch(() =>
+        edits
+          .slice()
+          .reverse()
+          .forEach((edit) => this.replayEdit(invertEdit(edit)))
+      )
+    );
+    history.redo.push(edits);
+    return true;
+  }
+
+  // Reapply the last undone step, returning false if there was nothing to redo
+  redo(): boolean {
+    const history = this.history;
+    const edits = this.replayable(history?.redo);
+    if (!history || !edits) return false;
+    this.withoutHistory(() => this.batch(() => edits.forEach((edit) => this.replayEdit(edit))));
+    history.undo.push(edits);
+    return true;
+  }
+
+  // Run `fn` and record all changes it makes as one undo step
+  batch<R>(fn: () => R): R {
+    const history = this.history;
+    if (!history || history.group) return fn();
+    const edits: ListEdit<T>[] = [];
+    history.group = edits;
+    try {
+      return fn();
+    } finally {
+      history.group = undefined;
+      if (edits.length > 0) pushStep(history, edits);
+    }
+  }
+
+  protected recordEdit(edit: ListEdit<T>): void {
+    if (this.history) recordEdit(this.history, edit);
+  }
+
+  // Apply an edit during undo or redo; subclasses replay through their own mutators
+  protected replayEdit(edit: ListEdit<T>): void {
+    applyEdit(this.items, edit);
+  }
+
+  private replayable(steps?: ListEdit<T>[][]): ListEdit<T>[] | undefined {
+    if (this.history?.group) {
+      throw new ListError('Cannot undo or redo inside a batch');
+    }
+    return steps?.pop();
+  }
+
+  private withoutHistory(fn: () => void): void {
+    const history = this.history;
+    if (!history || history.suspended) return fn();
+    history.suspended = true;
+    try {
+      fn();
+    } finally {
+      history.suspended = false;
+    }
+  }
+
+  // Reorders are recorded as the permutation they applied, found from a copy taken before
+  private trackReorder(): () => void {
+    const before = this.history && !this.history.suspended ? this.items.slice() : undefined;
+    return () => {
+      if (before) this.recordEdit({ type: 'reorder', order: reorderOf(before, this.items) });
+    };
   }
 
   [Symbol.toStringTag] = 'List';
@@ -213,166 +859,539 @@ class List<T> {
     return this.toString();
   }
 
-  // For browsers and other environments
-  toJSON(): T[] {
-    return this.items;
+  // For browsers and other environments; returns a copy so callers can't mutate the list.
+  // Nested Lists become arrays.
+  toJSON(): Unwrapped<T>[] {
+    return this.toArray({ deep: true });
+  }
+
+  // JSON string of the list; `tagged` preserves nested Lists, Dates, Maps, Sets and BigInts
+  serialize(options?: SerializeOptions): string {
+    return serialize(this, options);
+  }
+
+  // Rebuild a list from `serialize`/`toJSON` output; `tagged` restores tagged values
+  public static fromJSON<T>(json: string | unknown, reviver?: JSONReviver): List<T>;
+  public static fromJSON<T>(json: string | unknown, options: ParseOptions): List<T>;
+  public static fromJSON<T>(json: string | unknown, options?: JSONReviver | ParseOptions): List<T> {
+    return parse<T>(json, typeof options === 'function' ? { reviver: options } : options);
+  }
+
+  // One JSON document per line
+  toNDJSON(options?: SerializeOptions): string {
+    return toNDJSON(this, options);
   }
 
-  toArray(): T[] {
-    return this.items.slice();
+  // Tags are only revived with `{ tagged: true }`
+  public static fromNDJSON<T>(text: string, reviver?: JSONReviver): List<T>;
+  public static fromNDJSON<T>(text: string, options: ParseOptions): List<T>;
+  public static fromNDJSON<T>(text: string, options?: JSONReviver | ParseOptions): List<T> {
+    return parseNDJSON<T>(text, typeof options === 'function' ? { reviver: options } : options);
+  }
+
+  // Rows may be objects (columns from their keys) or arrays
+  toCSV(options?: CsvWriteOptions): string {
+    return toCSV(this, options);
+  }
+
+  public static fromCSV<T = Record<string, unknown>>(
+    text: string,
+    options?: CsvParseOptions
+  ): List<T> {
+    return parseCSV<T>(text, options);
+  }
+
+  // Read a Node stream (or any async iterable) as Lists of up to `batchSize` elements, e.g.
+  // `for await (const batch of List.fromStream(file, { format: 'ndjson' }))`. The Transform
+  // and Readable adapters are in the `/node` entry point.
+  public static fromStream<T>(
+    readable: AsyncIterable<unknown>,
+    options?: StreamBatchOptions
+  ): AsyncGenerator<List<T>> {
+    return readBatches<T>(readable, options);
+  }
+
+  // The elements as a Readable that only produces them as they are consumed. Node only: it
+  // loads the `/node` entry point on first use, so the main one has no Node builtins.
+  async toStream(options?: StreamWriteOptions): Promise<Readable> {
+    const { toStream } = await import('./node');
+    return toStream(this, options);
+  }
+
+  // `deep` turns nested Lists into arrays too, e.g. for grid data
+  toArray(): T[];
+  toArray(options: { deep: true }): Unwrapped<T>[];
+  toArray(options?: { deep?: boolean }): T[] | Unwrapped<T>[];
+  toArray(options: { deep?: boolean } = {}): T[] | Unwrapped<T>[] {
+    return options.deep ? (unwrapLists(this) as Unwrapped<T>[]) : this.items.slice();
   }
 
   toSet(): Set<T> {
     return new Set(this.items.slice());
   }
 
-  each(callback: EachCallback<T, void>, options: EachOptions = {}): void {
-    const { reverse = false, step = 1 } = options;
-    const length = this.items.length;
-    let breakLoop = false;
-    let continueLoop = false;
+  // From a list of `[key, value]` pairs, or keyed by `keyFn`; later elements win on equal keys.
+  // Lists are invariant, so pair lists are accepted with mutable and readonly tuples alike.
+  toMap<K, V>(this: List<readonly [K, V]> | List<[K, V]>): Map<K, V>;
+  toMap<K, V = T>(keyFn: (item: T) => K, valueFn?: (item: T) => V): Map<K, V>;
+  toMap<K, V>(keyFn?: (item: T) => K, valueFn?: (item: T) => V): Map<K, V> {
+    return new Map(this.keyedEntries(keyFn, valueFn));
+  }
+
+  // Like `toMap`, as a plain object without a prototype
+  toRecord<K extends PropertyKey, V>(this: List<readonly [K, V]> | List<[K, V]>): Record<K, V>;
+  toRecord<K extends PropertyKey, V = T>(
+    keyFn: (item: T) => K,
+    valueFn?: (item: T) => V
+  ): Record<K, V>;
+  toRecord<K extends PropertyKey, V>(
+    keyFn?: (item: T) => K,
+    valueFn?: (item: T) => V
+  ): Record<K, V> {
+    const record: Record<K, V> = Object.create(null);
+    for (const [key, value] of this.keyedEntries(keyFn, valueFn)) record[key] = value;
+    return record;
+  }
+
+  private keyedEntries<K, V>(keyFn?: (item: T) => K, valueFn?: (item: T) => V): [K, V][] {
+    return this.items.map((item) => {
+      if (!keyFn) return item as unknown as [K, V];
+      return [keyFn(item), valueFn ? valueFn(item) : (item as unknown as V)];
+    });
+  }
+
+  // Copy a numeric list into a typed array, a Float64Array unless another type is given
+  toTypedArray(this: List<number>): Float64Array;
+  toTypedArray<A>(this: List<number>, type: TypedArrayType<A>): A;
+  toTypedArray<A>(this: List<number>, type?: TypedArrayType<A>): A | Float64Array {
+    assertNumeric('Typed array conversion', this.items);
+    return (type ?? Float64Array).from(this.items);
+  }
 
-    const iterate = (i: number) => {
-      if (breakLoop) return;
-      if (continueLoop) {
-        continueLoop = false;
-        return;
-      }
+  toImmutable(): ImmutableList<T> {
+    return ImmutableList.from(this.items);
+  }
 
-      const value = this.items[i];
-      const prevIndex = reverse ? i + step : i - step;
-      const nextIndex = reverse ? i - step : i + step;
-
-      const context = {
-        prevIndex: prevIndex >= 0 && prevIndex < length ? prevIndex : undefined,
-        nextIndex: nextIndex >= 0 && nextIndex < length ? nextIndex : undefined,
-        prev: this.items[prevIndex],
-        next: this.items[nextIndex],
-        breakFn: () => {
-          breakLoop = true;
-        },
-        continueFn: () => {
-          continueLoop = true;
-        },
-        list: this,
-        isFirst: reverse ? i === length - 1 : i === 0,
-        isLast: reverse ? i === 0 : i === length - 1,
-      };
+  // Get a lazy view of the list for fused, single-pass pipelines
+  lazy(): LazyList<T> {
+    return new LazyList(this.items);
+  }
 
-      callback(value, i, context);
-    };
+  // The context's `breakFn`, `continueFn` and `stop` throw to leave the callback, so a
+  // try/catch around them inside the callback must rethrow what it doesn't handle
+  each<R = void>(callback: EachCallback<T, void>, options: EachOptions = {}): R | undefined {
+    return this.visit(callback, options, () => undefined) as R | undefined;
+  }
 
-    if (reverse) {
-      for (let i = length - 1; i >= 0; i -= step) {
-        iterate(i);
-      }
-    } else {
-      for (let i = 0; i < length; i += step) {
-        iterate(i);
-      }
-    }
+  private visit<R>(
+    callback: EachCallback<T, R>,
+    options: EachOptions,
+    onResult: (result: R, value: T, index: number) => 'stop' | void
+  ): unknown {
+    const bounds = iterationBounds(options, this.items.length, this.isStrict);
+    return visit(bounds, options, this.positionReader(bounds), () => this, callback, onResult);
+  }
+
+  private positionReader(bounds: IterationBounds): PositionReader<T> {
+    return (position) => this.items[bounds.first + position * bounds.step];
   }
 
+  // Control flow is shared with `each`: `continueFn` skips the element's result, `breakFn`
+  // ends without one, and `stop(value)` uses `value` as the last result
+
   map<U>(callback: EachCallback<T, U>, options: EachOptions = {}): List<U> {
     const result: U[] = [];
-    this.each((value, index, context) => {
-      result.push(callback(value, index, context));
-    }, options);
+    this.visit(callback, options, (mapped) => {
+      result.push(mapped);
+    });
     return new List(result);
   }
 
+  filter<S extends T>(predicate: EachGuard<T, S>, options?: EachOptions): List<S>;
+  filter(predicate: EachCallback<T, boolean>, options?: EachOptions): List<T>;
   filter(predicate: EachCallback<T, boolean>, options: EachOptions = {}): List<T> {
     const result: T[] = [];
-    this.each((value, index, context) => {
-      if (predicate(value, index, context)) {
-        result.push(value);
-      }
-    }, options);
+    this.visit(predicate, options, (passed, value) => {
+      if (passed) result.push(value);
+    });
     return new List(result);
   }
 
+  find<S extends T>(predicate: EachGuard<T, S>, options?: EachOptions): S | undefined;
+  find(predicate: EachCallback<T, boolean>, options?: EachOptions): T | undefined;
   find(predicate: EachCallback<T, boolean>, options: EachOptions = {}): T | undefined {
     let result: T | undefined;
-    this.each((value, index, context) => {
-      if (predicate(value, index, context)) {
-        result = value;
-        context.breakFn();
-      }
-    }, options);
+    this.visit(predicate, options, (passed, value) => {
+      if (!passed) return;
+      result = value;
+      return 'stop';
+    });
     return result;
   }
 
   findIndex(predicate: EachCallback<T, boolean>, options: EachOptions = {}): number {
     let result = -1;
-    this.each((value, index, context) => {
-      if (predicate(value, index, context)) {
-        result = index;
-        context.breakFn();
-      }
-    }, options);
+    this.visit(predicate, options, (passed, _value, index) => {
+      if (!passed) return;
+      result = index;
+      return 'stop';
+    });
     return result;
   }
 
   every(predicate: EachCallback<T, boolean>, options: EachOptions = {}): boolean {
     let result = true;
-    this.each((value, index, context) => {
-      if (!predicate(value, index, context)) {
-        result = false;
-        context.breakFn();
-      }
-    }, options);
+    this.visit(predicate, options, (passed) => {
+      if (passed) return;
+      result = false;
+      return 'stop';
+    });
     return result;
   }
 
   some(predicate: EachCallback<T, boolean>, options: EachOptions = {}): boolean {
     let result = false;
-    this.each((value, index, context) => {
-      if (predicate(value, index, context)) {
+    this.visit(predicate, options, (passed) => {
+      if (!passed) return;
+      result = true;
+      return 'stop';
+    });
+    return result;
+  }
+
+  reduce<U>(
+    callback: (accumulator: U, value: T, index: number, context: EachContext<T>) => U,
+    initialValue: U,
+    options: EachOptions = {}
+  ): U {
+    let accumulator = initialValue;
+    this.visit(
+      (value, index, context) => callback(accumulator, value, index, context),
+      options,
+      (next) => {
+        accumulator = next;
+      }
+    );
+    return accumulator;
+  }
+
+  async eachAsync(callback: EachCallback<T, unknown>, options: AsyncOptions = {}): Promise<void> {
+    await this.runAsync(callback, options, () => undefined);
+  }
+
+  async mapAsync<U>(
+    callback: EachCallback<T, U | Promise<U>>,
+    options: AsyncOptions = {}
+  ): Promise<List<U>> {
+    const results: [number, U][] = [];
+    await this.runAsync(callback, options, (result, _value, position) => {
+      results.push([position, result]);
+    });
+    return new List(this.orderResults(results, options));
+  }
+
+  async filterAsync(
+    predicate: EachCallback<T, boolean | Promise<boolean>>,
+    options: AsyncOptions = {}
+  ): Promise<List<T>> {
+    const results: [number, T][] = [];
+    await this.runAsync(predicate, options, (passed, value, position) => {
+      if (passed) results.push([position, value]);
+    });
+    return new List(this.orderResults(results, options));
+  }
+
+  async findAsync(
+    predicate: EachCallback<T, boolean | Promise<boolean>>,
+    options: AsyncOptions = {}
+  ): Promise<T | undefined> {
+    const { preserveOrder = true } = options;
+    let foundPosition = Infinity;
+    let result: T | undefined;
+
+    await this.runAsync(predicate, options, (passed, value, position) => {
+      if (!passed) return;
+      if (!preserveOrder) {
+        result = value;
+        return 'done';
+      }
+      // Earlier positions may still be in flight, so wait for them before settling
+      if (position < foundPosition) {
+        foundPosition = position;
+        result = value;
+      }
+      return 'stop';
+    });
+    return result;
+  }
+
+  async someAsync(
+    predicate: EachCallback<T, boolean | Promise<boolean>>,
+    options: AsyncOptions = {}
+  ): Promise<boolean> {
+    let result = false;
+    await this.runAsync(predicate, options, (passed) => {
+      if (passed) {
         result = true;
-        context.breakFn();
+        return 'done';
+      }
+    });
+    return result;
+  }
+
+  async everyAsync(
+    predicate: EachCallback<T, boolean | Promise<boolean>>,
+    options: AsyncOptions = {}
+  ): Promise<boolean> {
+    let result = true;
+    await this.runAsync(predicate, options, (passed) => {
+      if (!passed) {
+        result = false;
+        return 'done';
       }
-    }, options);
+    });
     return result;
   }
 
-  reduce<U>(
-    callback: (accumulator: U, value: T, index: number, context: EachContext<T>) => U,
-    initialValue: U,
-    options: EachOptions = {}
-  ): U {
-    let accumulator = initialValue;
-    this.each((value, index, context) => {
-      accumulator = callback(accumulator, value, index, context);
-    }, options);
-    return accumulator;
+  // Each step depends on the previous accumulator, so callbacks always run one at a time
+  async reduceAsync<U>(
+    callback: (accumulator: U, value: T, index: number, context: EachContext<T>) => U | Promise<U>,
+    initialValue: U,
+    options: AsyncOptions = {}
+  ): Promise<U> {
+    let accumulator = initialValue;
+    await this.runAsync(
+      (value, index, context) => callback(accumulator, value, index, context),
+      { ...options, concurrency: 1, errorMode: 'fail-fast' },
+      (result) => {
+        accumulator = result;
+      }
+    );
+    return accumulator;
+  }
+
+  private orderResults<R>(results: [number, R][], options: AsyncOptions): R[] {
+    if (options.preserveOrder !== false) {
+      results.sort((a, b) => a[0] - b[0]);
+    }
+    return results.map(([, result]) => result);
+  }
+
+  // Worker pool shared by the async helpers. `onResult` may return 'stop' to stop scheduling
+  // new callbacks (in-flight ones still settle) or 'done' to resolve immediately. Invalid
+  // options reject the returned promise rather than throwing.
+  private async runAsync<R>(
+    callback: EachCallback<T, R | Promise<R>>,
+    options: AsyncOptions,
+    onResult: (result: R, value: T, position: number) => 'stop' | 'done' | void
+  ): Promise<void> {
+    const { concurrency = Infinity, signal, errorMode = 'fail-fast' } = options;
+
+    if (!(concurrency >= 1)) {
+      throw new ListArgumentError(`Concurrency must be at least 1, got ${concurrency}`);
+    }
+
+    const bounds = iterationBounds(options, this.items.length, this.isStrict);
+    const valueAt = this.positionReader(bounds);
+    const errors: unknown[] = [];
+    const loop = createLoop();
+
+    return new Promise<void>((resolve, reject) => {
+      let nextPosition = 0;
+      let active = 0;
+      let stopped = false;
+      let settled = false;
+
+      const settle = (error?: unknown) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        if (error !== undefined) reject(error);
+        else resolve();
+      };
+
+      const onAbort = () => {
+        settle(abortReason(signal!));
+      };
+
+      const accept = (result: R, value: T, position: number, stop: boolean = false) => {
+        const signalled = onResult(result, value, position);
+        if (signalled === 'done') return settle();
+        if (signalled === 'stop' || stop) stopped = true;
+        launch();
+      };
+
+      const launch = () => {
+        while (!stopped && !settled && active < concurrency && nextPosition < bounds.count) {
+          const position = nextPosition++;
+          const index = bounds.first + position * bounds.step;
+          const value = valueAt(position);
+          const context = createContext(
+            bounds,
+            position,
+            options.window ?? 0,
+            loop,
+            valueAt,
+            () => this
+          );
+          active++;
+
+          Promise.resolve()
+            .then(() => callback(value, index, context))
+            .then(
+              (result) => {
+                active--;
+                if (!settled) accept(result, value, position);
+              },
+              (error) => {
+                active--;
+                if (settled) return;
+                // Control functions throw, which rejects the callback's promise
+                if (error instanceof LoopSignal && error.loop === loop) {
+                  if (error.type === 'stop') return accept(error.value as R, value, position, true);
+                  if (error.type === 'break') stopped = true;
+                  return launch();
+                }
+                if (errorMode === 'fail-fast') return settle(error ?? new Error(String(error)));
+                errors.push(error);
+                launch();
+              }
+            );
+        }
+
+        if (active === 0 && !settled) {
+          settle(errors.length > 0 ? new ListAggregateError(errors) : undefined);
+        }
+      };
+
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      launch();
+    });
+  }
+
+  // Flatten nested Lists and arrays by `depth` levels
+  flat<D extends number = 1>(depth?: D): List<Flattened<T, D>> {
+    return this.flattenTo(depth ?? 1);
+  }
+
+  fill(value: T, start?: number, end?: number): List<T> {
+    if (this.history) {
+      const from = start === undefined ? 0 : this.clampIndex(start);
+      const to = end === undefined ? this.items.length : this.clampIndex(end);
+      if (to > from) {
+        const removed = this.items.slice(from, to);
+        this.recordEdit({
+          type: 'splice',
+          index: from,
+          removed,
+          inserted: Array(to - from).fill(value),
+        });
+      }
+    }
+    this.items.fill(value, start, end);
+    return this;
+  }
+
+  indexOf(searchElement: T, fromIndex?: number, equality?: EqualityStrategy<T>): number {
+    const eq = this.elementEquality(equality);
+    if (!eq) return this.items.indexOf(searchElement, fromIndex);
+
+    let start = fromIndex ?? 0;
+    if (start < 0) start = Math.max(this.items.length + start, 0);
+    for (let i = start; i < this.items.length; i++) {
+      if (eq.equals(this.items[i], searchElement)) return i;
+    }
+    return -1;
+  }
+
+  lastIndexOf(
+    searchElement: T,
+    fromIndex: number = this.items.length - 1,
+    equality?: EqualityStrategy<T>
+  ): number {
+    const eq = this.elementEquality(equality);
+    if (!eq) return this.items.lastIndexOf(searchElement, fromIndex);
+
+    let start = fromIndex < 0 ? this.items.length + fromIndex : fromIndex;
+    start = Math.min(start, this.items.length - 1);
+    for (let i = start; i >= 0; i--) {
+      if (eq.equals(this.items[i], searchElement)) return i;
+    }
+    return -1;
+  }
+
+  // Use a custom equality for `unique`, `mode`, `indexOf`, `memoize` and friends on this list
+  useEquality(equality?: EqualityStrategy<T>): this {
+    this.equality = resolveEquality(equality);
+    return this;
+  }
+
+  // Compare elements pairwise, by the list's equality unless `deep` or `equality` is given
+  equals(
+    other: List<T>,
+    options: { deep?: boolean; equality?: EqualityStrategy<T> } = {}
+  ): boolean {
+    if (this === other) return true;
+    if (this.items.length !== other.items.length) return false;
+    const eq = this.elementEquality(options.equality ?? (options.deep ? 'deep' : undefined));
+    // Without an equality of their own, nested Lists are compared element by element too
+    const equals = eq
+      ? eq.equals
+      : (a: T, b: T) =>
+          a instanceof List && b instanceof List ? a.equals(b) : sameValueZero(a, b);
+    return this.items.every((item, index) => equals(item, other.items[index]));
+  }
+
+  // An explicit strategy wins over the list's own, 'identity' included
+  private elementEquality(strategy?: EqualityStrategy<T>): Equality<T> | undefined {
+    return strategy === undefined ? this.equality : resolveEquality(strategy);
+  }
+
+  // Minimal edit script of 'keep', 'delete' and 'insert' runs turning this list into `other`
+  diff(other: List<T>, options: DiffOptions<T> = {}): Patch<T> {
+    return sequences.diff(this.items, other.items, this.sequenceEquals(options));
+  }
+
+  // Apply a patch from `diff`, throwing if the elements it keeps or deletes don't match
+  applyPatch(patch: Patch<T>, options: DiffOptions<T> = {}): List<T> {
+    return new List(sequences.applyPatch(this.items, patch, this.sequenceEquals(options)));
+  }
+
+  // A patch undoing `patch`
+  static invertPatch<T>(patch: Patch<T>): Patch<T> {
+    return sequences.invertPatch(patch);
+  }
+
+  longestCommonSubsequence(other: List<T>, options: DiffOptions<T> = {}): List<T> {
+    return new List(
+      sequences.longestCommonSubsequence(this.items, other.items, this.sequenceEquals(options))
+    );
   }
 
-  flat(depth: number = 1): List<T extends (infer U)[] ? U : T> {
-    const flattened: any[] = [];
-    const flatten = (arr: any[], currentDepth: number) => {
-      for (const item of arr) {
-        if (Array.isArray(item) && currentDepth > 0) {
-          flatten(item, currentDepth - 1);
-        } else {
-          flattened.push(item);
-        }
-      }
-    };
-    flatten(this.items, depth);
-    return new List(flattened);
+  // Longest contiguous run shared with `other`, with where it starts in each list
+  longestCommonSubstring(other: List<T>, options: DiffOptions<T> = {}): CommonSubstring {
+    return sequences.longestCommonSubstring(this.items, other.items, this.sequenceEquals(options));
   }
 
-  fill(value: T, start?: number, end?: number): List<T> {
-    this.items.fill(value, start, end);
-    return this;
+  // Number of insertions, deletions and substitutions needed to turn this list into `other`
+  levenshtein(other: List<T>, options: EditDistanceOptions<T> = {}): number {
+    const { transpositions = false } = options;
+    return sequences.editDistance(
+      this.items,
+      other.items,
+      this.sequenceEquals(options),
+      transpositions
+    );
   }
 
-  indexOf(searchElement: T, fromIndex?: number): number {
-    return this.items.indexOf(searchElement, fromIndex);
+  // Levenshtein distance that also counts swapping two adjacent elements as one edit
+  damerauLevenshtein(other: List<T>, options: DiffOptions<T> = {}): number {
+    return this.levenshtein(other, { ...options, transpositions: true });
   }
 
-  lastIndexOf(searchElement: T, fromIndex?: number): number {
-    return this.items.lastIndexOf(searchElement, fromIndex);
+  private sequenceEquals(options: DiffOptions<T>): (a: T, b: T) => boolean {
+    return options.equals ?? this.equality?.equals ?? sameValueZero;
   }
 
   keys(): number[] {
@@ -393,15 +1412,18 @@ class List<T> {
   }
 
   reverse(): List<T> {
+    const recordReorder = this.trackReorder();
     this.items.reverse();
+    recordReorder();
     return this;
   }
 
   // Implementing these methods using our `each` method for consistency
-  indexOfWithEach(searchElement: T, fromIndex: number = 0): number {
+  indexOfWithEach(searchElement: T, fromIndex: number = 0, equality?: EqualityStrategy<T>): number {
+    const equals = this.elementEquality(equality)?.equals ?? ((a: T, b: T) => a === b);
     let foundIndex = -1;
     this.each((value, index, context) => {
-      if (index >= fromIndex && value === searchElement) {
+      if (index >= fromIndex && equals(value, searchElement)) {
         foundIndex = index;
         context.breakFn();
       }
@@ -409,12 +1431,18 @@ class List<T> {
     return foundIndex;
   }
 
-  lastIndexOfWithEach(searchElement: T, fromIndex: number = this.length - 1): number {
+  lastIndexOfWithEach(
+    searchElement: T,
+    fromIndex: number = this.length - 1,
+    equality?: EqualityStrategy<T>
+  ): number {
+    const equals = this.elementEquality(equality)?.equals ?? ((a: T, b: T) => a === b);
     let foundIndex = -1;
     this.each(
       (value, index, context) => {
-        if (index <= fromIndex && value === searchElement) {
+        if (index <= fromIndex && equals(value, searchElement)) {
           foundIndex = index;
+          context.breakFn();
         }
       },
       { reverse: true }
@@ -423,11 +1451,13 @@ class List<T> {
   }
 
   reverseWithEach(): List<T> {
+    const recordReorder = this.trackReorder();
     const reversed: T[] = [];
     this.each((value) => {
       reversed.unshift(value);
     });
     this.items = reversed;
+    recordReorder();
     return this;
   }
 
@@ -438,6 +1468,7 @@ class List<T> {
     let compareFunction: (a: T, b: T) => number;
     let direction: SortDirection = 'asc';
     let sortMethod: SortMethod | undefined = method;
+    const recordReorder = this.trackReorder();
 
     if (typeof directionOrCompare === 'function') {
       compareFunction = directionOrCompare;
@@ -468,6 +1499,10 @@ class List<T> {
       case 'radix':
         if (this.isRadixSortable()) {
           this.radixSort(direction);
+        } else if (this.isStrict) {
+          throw new ListTypeError(
+            'Radix sort is only applicable for lists of non-negative integers'
+          );
         } else {
           console.warn(
             'Radix sort is only applicable for lists of positive integers. Falling back to quicksort.'
@@ -479,9 +1514,120 @@ class List<T> {
         this.items.sort(compareFunction);
     }
 
+    recordReorder();
+    return this;
+  }
+
+  // Non-mutating variant of `sort`
+  toSorted(
+    directionOrCompare?: SortDirection | ((a: T, b: T) => number),
+    method?: SortMethod
+  ): List<T> {
+    return this.clone().sort(directionOrCompare, method);
+  }
+
+  // Stable sort by one or more keys; later keys break ties of earlier ones
+  sortBy(keys: SortKey<T> | SortKey<T>[], method?: SortMethod): List<T> {
+    const recordReorder = this.trackReorder();
+    const compareKeys = (Array.isArray(keys) ? keys : [keys]).map((key) =>
+      createKeyCompare(typeof key === 'function' ? { key } : key)
+    );
+
+    // Precompute keys once per element and fall back to the original position,
+    // which makes every sort method stable
+    const decorated = new List(
+      this.items.map((item, index) => ({
+        item,
+        index,
+        keys: compareKeys.map(([key]) => key(item)),
+      }))
+    );
+    decorated.sort(
+      (a, b) => {
+        for (let i = 0; i < compareKeys.length; i++) {
+          const result = compareKeys[i][1](a.keys[i], b.keys[i]);
+          if (result !== 0) return result;
+        }
+        return a.index - b.index;
+      },
+      method === 'radix' ? 'merge' : method
+    );
+
+    this.items = decorated.items.map(({ item }) => item);
+    recordReorder();
     return this;
   }
 
+  // Non-mutating variant of `sortBy`
+  toSortedBy(keys: SortKey<T> | SortKey<T>[], method?: SortMethod): List<T> {
+    return this.clone().sortBy(keys, method);
+  }
+
+  // The binary search helpers below assume the list is sorted by `compare`
+  // (ascending default order when omitted)
+
+  // Index of an element equal to `value`, or -1 if there is none
+  binarySearch(value: T, compare?: (a: T, b: T) => number): number {
+    const index = this.lowerBound(value, compare);
+    const cmp = this.sortedCompare(compare);
+    return index < this.items.length && cmp(this.items[index], value) === 0 ? index : -1;
+  }
+
+  // First index whose element is not less than `value`
+  lowerBound(value: T, compare?: (a: T, b: T) => number): number {
+    const cmp = this.sortedCompare(compare);
+    let low = 0;
+    let high = this.items.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (cmp(this.items[mid], value) < 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  // First index whose element is greater than `value`
+  upperBound(value: T, compare?: (a: T, b: T) => number): number {
+    const cmp = this.sortedCompare(compare);
+    let low = 0;
+    let high = this.items.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (cmp(this.items[mid], value) <= 0) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  // Half-open index range [start, end) of elements equal to `value`
+  equalRange(value: T, compare?: (a: T, b: T) => number): [number, number] {
+    return [this.lowerBound(value, compare), this.upperBound(value, compare)];
+  }
+
+  // Insert after any equal elements to keep the order, returns the index used
+  insertSorted(value: T, compare?: (a: T, b: T) => number): number {
+    const index = this.upperBound(value, compare);
+    this.recordEdit({ type: 'splice', index, removed: [], inserted: [value] });
+    this.items.splice(index, 0, value);
+    return index;
+  }
+
+  // Elements between `low` and `high`, both inclusive
+  rangeQuery(low: T, high: T, compare?: (a: T, b: T) => number): List<T> {
+    return new List(
+      this.items.slice(this.lowerBound(low, compare), this.upperBound(high, compare))
+    );
+  }
+
+  // Merge with another sorted list in linear time; ties keep this list's elements first
+  mergeSorted(other: List<T>, compare?: (a: T, b: T) => number): List<T> {
+    return new List(this.merge(this.items, other.items, this.sortedCompare(compare)));
+  }
+
+  protected sortedCompare(compare?: (a: T, b: T) => number): (a: T, b: T) => number {
+    return compare ?? this.getDefaultCompare('asc');
+  }
+
   private getDefaultCompare(direction: SortDirection = 'asc'): (a: T, b: T) => number {
     return (a: T, b: T) => {
       if (typeof a === 'number' && typeof b === 'number') {
@@ -623,7 +1769,7 @@ class List<T> {
 
   private radixSort(direction: SortDirection): void {
     if (!this.isRadixSortable()) {
-      throw new Error('Radix sort is only applicable for lists of positive integers.');
+      throw new ListTypeError('Radix sort is only applicable for lists of non-negative integers');
     }
 
     const max = Math.max(...(this.items as number[]));
@@ -643,16 +1789,79 @@ class List<T> {
   }
 
   // Shuffle the list
-  shuffle(): List<T> {
-    for (let i = this.items.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [this.items[i], this.items[j]] = [this.items[j], this.items[i]];
-    }
+  shuffle(options: RandomOptions = {}): List<T> {
+    const recordReorder = this.trackReorder();
+    randomness.shuffleInPlace(this.items, this.randomSource(options));
+    recordReorder();
     return this;
   }
 
+  // Non-mutating variant of `shuffle`
+  shuffled(options: RandomOptions = {}): List<T> {
+    return new List(randomness.shuffleInPlace(this.items.slice(), this.randomSource(options)));
+  }
+
+  // Use `random` (or a mulberry32 generator seeded with it) for `random`, `shuffle`, `sample`
+  // and friends on this list, so their results can be reproduced
+  useRandom(random?: RandomSource | number | string): this {
+    this.rng =
+      typeof random === 'string' || typeof random === 'number'
+        ? randomness.mulberry32(random)
+        : random;
+    return this;
+  }
+
+  // Pick k elements at random; without replacement each element is picked at most once
+  sample(k: number, options: SampleOptions = {}): List<T> {
+    const { replace = false } = options;
+    const size = randomness.sampleSize(k, this.items.length, replace, this.isStrict);
+    return new List(randomness.sample(this.items, size, replace, this.randomSource(options)));
+  }
+
+  // Pick one element with probability proportional to its weight
+  weightedRandom(weightFn: (item: T) => number, options: RandomOptions = {}): T | undefined {
+    return this.weightedSample(1, weightFn, options).first;
+  }
+
+  // Pick k elements with probabilities proportional to their weights; zero weights are never picked
+  weightedSample(k: number, weightFn: (item: T) => number, options: SampleOptions = {}): List<T> {
+    const { replace = false } = options;
+    const indices = randomness.weightedIndices(
+      this.items.map(weightFn),
+      randomness.sampleSize(k, this.items.length, replace, this.isStrict),
+      replace,
+      this.randomSource(options)
+    );
+    return new List(indices.map((index) => this.items[index]));
+  }
+
+  // Uniformly sample k elements of an iterable in a single pass, without knowing its length
+  public static reservoirSample<T>(
+    items: Iterable<T>,
+    k: number,
+    options: RandomOptions = {}
+  ): List<T> {
+    const size = randomness.sampleSize(k, Infinity, false, List.strict);
+    return new List(randomness.reservoirSample(items, size, options.random ?? Math.random));
+  }
+
+  // Shuffle into lists sized in proportion to `weights`, e.g. `[0.8, 0.2]` for a train/test split
+  randomSplit(weights: number[], options: RandomOptions = {}): List<T>[] {
+    const shuffled = randomness.shuffleInPlace(this.items.slice(), this.randomSource(options));
+    let start = 0;
+    return randomness.splitSizes(shuffled.length, weights).map((size) => {
+      start += size;
+      return new List(shuffled.slice(start - size, start));
+    });
+  }
+
+  private randomSource(options: RandomOptions = {}): RandomSource {
+    return options.random ?? this.rng ?? Math.random;
+  }
+
   // Chunk the list into smaller lists of a given size
   chunk(size: number): List<List<T>> {
+    assertSize('Chunk size', size, this.isStrict);
     const chunks: List<T>[] = [];
     for (let i = 0; i < this.items.length; i += size) {
       chunks.push(new List(this.items.slice(i, i + size)));
@@ -660,11 +1869,93 @@ class List<T> {
     return new List(chunks);
   }
 
+  // Chunk consecutive elements while `predicate(prev, curr)` holds, e.g. timestamps less than
+  // a gap apart; a new chunk starts wherever it fails
+  chunkWhile(predicate: (prev: T, curr: T) => boolean): List<List<T>> {
+    return this.splitWhen((prev, curr) => !predicate(prev, curr));
+  }
+
+  // Split between adjacent elements where `predicate(prev, curr)` holds
+  splitWhen(predicate: (prev: T, curr: T) => boolean): List<List<T>> {
+    const chunks: List<T>[] = [];
+    let start = 0;
+    for (let i = 1; i <= this.items.length; i++) {
+      if (i === this.items.length || predicate(this.items[i - 1], this.items[i])) {
+        chunks.push(new List(this.items.slice(start, i)));
+        start = i;
+      }
+    }
+    return new List(chunks);
+  }
+
+  // Split into the elements before `index` and the rest; negative indices count from the end
+  splitAt(index: number): [List<T>, List<T>] {
+    if (this.isStrict) assertIndex(index, this.items.length, true);
+    return [new List(this.items.slice(0, index)), new List(this.items.slice(index))];
+  }
+
+  // Split into the longest prefix whose elements pass `predicate` and the rest
+  span(predicate: (item: T, index: number) => boolean): [List<T>, List<T>] {
+    let end = 0;
+    while (end < this.items.length && predicate(this.items[end], end)) end++;
+    return this.splitAt(end);
+  }
+
+  // Split into the longest prefix whose elements fail `predicate` and the rest
+  break(predicate: (item: T, index: number) => boolean): [List<T>, List<T>] {
+    return this.span((item, index) => !predicate(item, index));
+  }
+
+  // Group runs of adjacent elements with equal keys; unlike `groupBy`, a key can recur
+  groupConsecutive<K>(keyFn: (item: T) => K, equality?: EqualityStrategy<K>): List<[K, List<T>]> {
+    const equals = resolveEquality(equality)?.equals ?? sameValueZero;
+    const groups: [K, List<T>][] = [];
+    for (const item of this.items) {
+      const key = keyFn(item);
+      const current = groups[groups.length - 1];
+      if (current && equals(current[0], key)) current[1].items.push(item);
+      else groups.push([key, new List([item])]);
+    }
+    return new List(groups);
+  }
+
+  // Compress runs of equal elements (by the list's equality) into `[value, count]` pairs
+  runLengthEncode(): List<[T, number]> {
+    const equals = this.equality?.equals ?? sameValueZero;
+    const runs: [T, number][] = [];
+    for (const item of this.items) {
+      const run = runs[runs.length - 1];
+      if (run && equals(run[0], item)) run[1]++;
+      else runs.push([item, 1]);
+    }
+    return new List(runs);
+  }
+
+  // Inverse of `runLengthEncode`
+  public static runLengthDecode<T>(runs: Iterable<[T, number]>): List<T> {
+    const items: T[] = [];
+    for (const [value, count] of runs) {
+      for (let i = 0; i < count; i++) items.push(value);
+    }
+    return new List(items);
+  }
+
+  // Insert `separator` between adjacent elements
+  intersperse(separator: T): List<T> {
+    const result: T[] = [];
+    this.items.forEach((item, index) => {
+      if (index > 0) result.push(separator);
+      result.push(item);
+    });
+    return new List(result);
+  }
+
   // Rotate the list by a given number of positions
   rotate(k: number): List<T> {
     if (this.length === 0) return this;
     k = k % this.length;
     if (k < 0) k += this.length;
+    if (k > 0) this.recordEdit({ type: 'move', from: this.length - k, to: 0, count: k });
     this.items = [...this.items.slice(-k), ...this.items.slice(0, -k)];
     return this;
   }
@@ -680,9 +1971,9 @@ class List<T> {
     return new List(result);
   }
 
-  // Group elements by a key generated from a callback
-  groupBy<K>(keyFn: (item: T) => K): Map<K, List<T>> {
-    const groups = new Map<K, List<T>>();
+  // Group elements by a key generated from a callback; pass 'deep' to group by composite keys
+  groupBy<K>(keyFn: (item: T) => K, equality?: EqualityStrategy<K>): Map<K, List<T>> {
+    const groups = new HashMap<K, List<T>>(resolveEquality(equality));
     for (const item of this.items) {
       const key = keyFn(item);
       if (!groups.has(key)) {
@@ -690,27 +1981,264 @@ class List<T> {
       }
       groups.get(key)!.push(item);
     }
+    return groups.toMap();
+  }
+
+  // Group into a plain object keyed by `keyFn`; keys no element produced are absent
+  groupByToRecord<K extends PropertyKey>(keyFn: (item: T) => K): Partial<Record<K, List<T>>> {
+    const groups: Partial<Record<K, List<T>>> = Object.create(null);
+    for (const item of this.items) {
+      const key = keyFn(item);
+      (groups[key] ??= new List<T>()).push(item);
+    }
     return groups;
   }
 
+  // Group into a `GroupedList` for `aggregate`, `having` and further grouping.
+  // An array of key functions groups by the tuple of their keys.
+  grouped<K>(keyFn: (item: T) => K, equality?: EqualityStrategy<K>): GroupedList<K, T>;
+  grouped<K extends unknown[]>(keyFns: { [I in keyof K]: (item: T) => K[I] }): GroupedList<K, T>;
+  grouped<K>(
+    keyFn: ((item: T) => K) | ((item: T) => unknown)[],
+    equality?: EqualityStrategy<K>
+  ): GroupedList<K, T> {
+    return GroupedList.from(this.items, keyFn, equality);
+  }
+
+  // Cross-tabulate: one row per `rowKey`, one cell per `columnKey`, aggregated over its items.
+  // Every row gets every column; empty cells aggregate an empty list.
+  pivot<R, C, V>(
+    rowKey: (item: T) => R,
+    columnKey: (item: T) => C,
+    aggregator: Aggregator<T, V>
+  ): Map<R, Map<C, V>> {
+    const columns = this.grouped(columnKey).keys().toArray();
+    const table = new Map<R, Map<C, V>>();
+    for (const [row, group] of this.grouped(rowKey)) {
+      const cells = group.groupBy(columnKey);
+      table.set(
+        row,
+        new Map(columns.map((column) => [column, aggregator(cells.get(column) ?? new List<T>())]))
+      );
+    }
+    return table;
+  }
+
+  // Joins below pair elements whose keys match by SameValueZero, or by `equality` if given.
+  // Pairs follow this list's order, then the order of matches in `other`.
+
+  innerJoin<U, K>(
+    other: List<U>,
+    key: (item: T) => K,
+    otherKey: (item: U) => K,
+    equality?: EqualityStrategy<K>
+  ): List<[T, U]> {
+    const index = List.joinIndex(other.items, otherKey, equality);
+    const result: [T, U][] = [];
+    for (const item of this.items) {
+      for (const match of index.get(key(item)) ?? []) result.push([item, match]);
+    }
+    return new List(result);
+  }
+
+  // Like `innerJoin`, also keeping elements without a match, paired with `undefined`
+  leftJoin<U, K>(
+    other: List<U>,
+    key: (item: T) => K,
+    otherKey: (item: U) => K,
+    equality?: EqualityStrategy<K>
+  ): List<[T, U | undefined]> {
+    const index = List.joinIndex(other.items, otherKey, equality);
+    const result: [T, U | undefined][] = [];
+    for (const item of this.items) {
+      const matches = index.get(key(item)) ?? [];
+      if (matches.length === 0) result.push([item, undefined]);
+      for (const match of matches) result.push([item, match]);
+    }
+    return new List(result);
+  }
+
+  // Like `leftJoin` from `other`'s side, in `other`'s order
+  rightJoin<U, K>(
+    other: List<U>,
+    key: (item: T) => K,
+    otherKey: (item: U) => K,
+    equality?: EqualityStrategy<K>
+  ): List<[T | undefined, U]> {
+    return other
+      .leftJoin(this, otherKey, key, equality)
+      .map(([match, item]) => [item, match] as [T | undefined, U]);
+  }
+
+  // `leftJoin` followed by the elements of `other` that matched nothing
+  fullJoin<U, K>(
+    other: List<U>,
+    key: (item: T) => K,
+    otherKey: (item: U) => K,
+    equality?: EqualityStrategy<K>
+  ): List<[T | undefined, U | undefined]> {
+    const result: [T | undefined, U | undefined][] = this.leftJoin(
+      other,
+      key,
+      otherKey,
+      equality
+    ).toArray();
+    const keys = List.joinIndex(this.items, key, equality);
+    for (const item of other.items) {
+      if (!keys.has(otherKey(item))) result.push([undefined, item]);
+    }
+    return new List(result);
+  }
+
+  // Elements with at least one match in `other`
+  semiJoin<U, K>(
+    other: List<U>,
+    key: (item: T) => K,
+    otherKey: (item: U) => K,
+    equality?: EqualityStrategy<K>
+  ): List<T> {
+    const index = List.joinIndex(other.items, otherKey, equality);
+    return new List(this.items.filter((item) => index.has(key(item))));
+  }
+
+  // Elements without a match in `other`
+  antiJoin<U, K>(
+    other: List<U>,
+    key: (item: T) => K,
+    otherKey: (item: U) => K,
+    equality?: EqualityStrategy<K>
+  ): List<T> {
+    const index = List.joinIndex(other.items, otherKey, equality);
+    return new List(this.items.filter((item) => !index.has(key(item))));
+  }
+
+  private static joinIndex<U, K>(
+    items: U[],
+    key: (item: U) => K,
+    equality?: EqualityStrategy<K>
+  ): HashMap<K, U[]> {
+    const index = new HashMap<K, U[]>(resolveEquality(equality));
+    for (const item of items) {
+      const k = key(item);
+      const matches = index.get(k);
+      if (matches) matches.push(item);
+      else index.set(k, [item]);
+    }
+    return index;
+  }
+
+  // Set operations below match elements by SameValueZero, a key selector or `{ key | equals }`,
+  // and treat both lists as sets unless `multiset: true` is passed
+
+  // Get unique elements by a key selector or equality comparator
+  uniqueBy(keyOrMatcher: ((item: T) => unknown) | SetMatcher<T>): List<T> {
+    return new List(uniqueItems(this.items, this.setOptions(keyOrMatcher)));
+  }
+
+  union(other: List<T>, options?: ((item: T) => unknown) | SetOptions<T>): List<T> {
+    const opts = this.setOptions(options);
+    if (!opts.multiset) {
+      return new List(uniqueItems([...this.items, ...other.items], opts));
+    }
+    // Keep the larger count of each element
+    const bag = createBag(opts, this.items);
+    return new List([...this.items, ...other.items.filter((item) => !bag.take(item))]);
+  }
+
+  intersection(other: List<T>, options?: ((item: T) => unknown) | SetOptions<T>): List<T> {
+    const opts = this.setOptions(options);
+    const bag = createBag(opts, other.items);
+    if (!opts.multiset) {
+      return new List(
+        uniqueItems(
+          this.items.filter((item) => bag.count(item) > 0),
+          opts
+        )
+      );
+    }
+    return new List(this.items.filter((item) => bag.take(item)));
+  }
+
+  difference(other: List<T>, options?: ((item: T) => unknown) | SetOptions<T>): List<T> {
+    const opts = this.setOptions(options);
+    const bag = createBag(opts, other.items);
+    if (!opts.multiset) {
+      return new List(
+        uniqueItems(
+          this.items.filter((item) => bag.count(item) === 0),
+          opts
+        )
+      );
+    }
+    return new List(this.items.filter((item) => !bag.take(item)));
+  }
+
+  symmetricDifference(other: List<T>, options?: ((item: T) => unknown) | SetOptions<T>): List<T> {
+    return this.difference(other, options).concat(other.difference(this, options));
+  }
+
+  isSubsetOf(other: List<T>, options?: ((item: T) => unknown) | SetOptions<T>): boolean {
+    const opts = this.setOptions(options);
+    const bag = createBag(opts, other.items);
+    return this.items.every((item) => (opts.multiset ? bag.take(item) : bag.count(item) > 0));
+  }
+
+  isSupersetOf(other: List<T>, options?: ((item: T) => unknown) | SetOptions<T>): boolean {
+    return other.isSubsetOf(this, options);
+  }
+
+  isDisjointFrom(other: List<T>, options?: ((item: T) => unknown) | SetOptions<T>): boolean {
+    const bag = createBag(this.setOptions(options), other.items);
+    return this.items.every((item) => bag.count(item) === 0);
+  }
+
+  private setOptions(options: ((item: T) => unknown) | SetOptions<T> = {}): SetOptions<T> {
+    return typeof options === 'function' ? { key: options } : options;
+  }
+
   // Partition the list into two lists based on a predicate
-  partition(predicate: (item: T) => boolean): [List<T>, List<T>] {
+  partition<S extends T>(predicate: (item: T) => item is S): [List<S>, List<Exclude<T, S>>];
+  partition(predicate: (item: T) => boolean): [List<T>, List<T>];
+  partition<S extends T>(
+    predicate: (item: T) => boolean
+  ): [List<S>, List<Exclude<T, S>>] | [List<T>, List<T>] {
     const trueList: T[] = [];
     const falseList: T[] = [];
     this.items.forEach((item) => (predicate(item) ? trueList.push(item) : falseList.push(item)));
     return [new List(trueList), new List(falseList)];
   }
 
-  // Zip this list with another list
-  zip<U>(other: List<U>): List<[T, U]> {
-    const result: [T, U][] = [];
-    const minLength = Math.min(this.length, other.length);
-    for (let i = 0; i < minLength; i++) {
-      result.push([this.items[i], other.items[i]]);
+  // Zip this list with other Lists or arrays into tuples, stopping at the shortest
+  zip<U extends unknown[]>(...others: ZipSources<U>): List<[T, ...U]> {
+    return this.zipWith((...values: [T, ...U]) => values, ...others);
+  }
+
+  // Combine the elements at each position with `fn`, stopping at the shortest list
+  zipWith<U extends unknown[], R>(
+    fn: (value: T, ...others: U) => R,
+    ...others: ZipSources<U>
+  ): List<R> {
+    const sources = (others as readonly (List<unknown> | readonly unknown[])[]).map((other) =>
+      other instanceof List ? other.items : other
+    );
+    const length = Math.min(this.items.length, ...sources.map((source) => source.length));
+    const result: R[] = [];
+    for (let i = 0; i < length; i++) {
+      result.push(fn(this.items[i], ...(sources.map((source) => source[i]) as U)));
     }
     return new List(result);
   }
 
+  // Split a list of tuples into one List per position; the widest tuple sets the count, so
+  // an empty list unzips to no Lists
+  unzip<U extends unknown[]>(this: List<U>): Unzipped<U> {
+    const width = this.items.reduce((max, tuple) => Math.max(max, tuple.length), 0);
+    return Array.from(
+      { length: width },
+      (_, i) => new List(this.items.map((tuple) => tuple[i]))
+    ) as Unzipped<U>;
+  }
+
   // Combine adjacent elements using a reducer function
   adjacentReduce<U>(reducer: (prev: T, curr: T) => U): List<U> {
     const result: U[] = [];
@@ -720,33 +2248,157 @@ class List<T> {
     return new List(result);
   }
 
-  // Get all permutations of the list
-  permutations(): List<List<T>> {
-    if (this.length === 0) return new List([new List()]);
+  // Get all permutations of k elements (default: all of them), by position in lexicographic order.
+  // Repeated elements produce repeated permutations; see `distinctPermutations`.
+  permutations(k: number = this.length): List<List<T>> {
+    return this.pick(combinatorics.permutationIndices(this.items.length, k));
+  }
+
+  // Permutations of the list as a multiset: equal elements (by the list's equality) are
+  // interchangeable, so each arrangement appears once
+  distinctPermutations(): List<List<T>> {
+    const [values, counts] = this.distinctCounts();
     const result: List<T>[] = [];
-    for (let i = 0; i < this.length; i++) {
-      const rest = new List([...this.items.slice(0, i), ...this.items.slice(i + 1)]);
-      const perms = rest.permutations();
-      for (const perm of perms) {
-        result.push(new List([this.items[i], ...perm]));
+    for (const indices of combinatorics.multisetPermutationIndices(counts)) {
+      result.push(new List(indices.map((i) => values[i])));
+    }
+    return new List(result);
+  }
+
+  // Get all multisets of k elements, where each element may be picked repeatedly
+  combinationsWithRepetition(k: number): List<List<T>> {
+    return this.pick(combinatorics.multicombinationIndices(this.items.length, k));
+  }
+
+  // Get every subset, by increasing size
+  powerSet(): List<List<T>> {
+    return this.pick(combinatorics.powerSetIndices(this.items.length));
+  }
+
+  // Get every tuple taking one element from this list and from each of `lists`
+  cartesianProduct<U extends unknown[]>(...lists: { [I in keyof U]: List<U[I]> }): List<[T, ...U]> {
+    const sources: unknown[][] = [this.items, ...(lists as List<unknown>[]).map((l) => l.items)];
+    const result: [T, ...U][] = [];
+    for (const indices of combinatorics.productIndices(sources.map((items) => items.length))) {
+      result.push(indices.map((index, i) => sources[i][index]) as [T, ...U]);
+    }
+    return new List(result);
+  }
+
+  // Get every way to split the list into non-empty groups (exactly `blocks` of them if given).
+  // Groups keep the list's order and are ordered by their first element.
+  partitions(blocks?: number): List<List<List<T>>> {
+    const result: List<List<T>>[] = [];
+    for (const assignment of combinatorics.setPartitionBlocks(this.items.length, blocks)) {
+      const groups: T[][] = [];
+      assignment.forEach((block, index) => {
+        (groups[block] ??= []).push(this.items[index]);
+      });
+      result.push(new List(groups.map((group) => new List(group))));
+    }
+    return new List(result);
+  }
+
+  // Get every way to write n as a sum of positive integers, largest parts first
+  public static integerPartitions(n: number): List<List<number>> {
+    const result: List<number>[] = [];
+    for (const parts of combinatorics.integerPartitions(n)) result.push(new List(parts));
+    return new List(result);
+  }
+
+  // Number of k-permutations (default: all elements), without generating them
+  countPermutations(k: number = this.length): bigint {
+    return combinatorics.countPermutations(this.items.length, k);
+  }
+
+  countDistinctPermutations(): bigint {
+    return combinatorics.countMultisetPermutations(this.distinctCounts()[1]);
+  }
+
+  countCombinations(k: number, options: { repetition?: boolean } = {}): bigint {
+    return options.repetition
+      ? combinatorics.countMulticombinations(this.items.length, k)
+      : combinatorics.countCombinations(this.items.length, k);
+  }
+
+  // The permutation `permutations(k)` would produce at `index` (negative counts from the end)
+  permutationAt(index: number | bigint, k: number = this.length): List<T> {
+    return new List(
+      combinatorics.permutationAt(this.items.length, k, index).map((i) => this.items[i])
+    );
+  }
+
+  // Inverse of `permutationAt`: where `permutation` appears in `permutations(permutation.length)`.
+  // Equal elements are matched to their earliest unused position.
+  permutationIndex(permutation: List<T> | T[]): bigint {
+    const equals = this.equality?.equals ?? sameValueZero;
+    const used: boolean[] = Array(this.items.length).fill(false);
+    const indices = (permutation instanceof List ? permutation.items : permutation).map((item) => {
+      const index = this.items.findIndex((candidate, i) => !used[i] && equals(candidate, item));
+      if (index === -1) {
+        throw new ListArgumentError('Not a permutation of elements of this list');
       }
+      used[index] = true;
+      return index;
+    });
+    return combinatorics.permutationRank(this.items.length, indices);
+  }
+
+  // The combination `combinations(k)` would produce at `index` (negative counts from the end)
+  combinationAt(index: number | bigint, k: number): List<T> {
+    return new List(
+      combinatorics.combinationAt(this.items.length, k, index).map((i) => this.items[i])
+    );
+  }
+
+  private pick(selections: Iterable<number[]>): List<List<T>> {
+    const result: List<T>[] = [];
+    for (const indices of selections) {
+      result.push(new List(indices.map((i) => this.items[i])));
     }
     return new List(result);
   }
 
+  // Distinct elements in order of first occurrence, with how often each occurs
+  private distinctCounts(): [T[], number[]] {
+    const positions = new HashMap<T, number>(this.equality);
+    const values: T[] = [];
+    const counts: number[] = [];
+    for (const item of this.items) {
+      const position = positions.get(item);
+      if (position === undefined) {
+        positions.set(item, values.length);
+        values.push(item);
+        counts.push(1);
+      } else {
+        counts[position]++;
+      }
+    }
+    return [values, counts];
+  }
+
   // Generate a sliding window of the list
-  slidingWindow(windowSize: number): List<List<T>> {
-    if (windowSize > this.length) return new List();
+  slidingWindow(windowSize: number, options: WindowOptions = {}): List<List<T>> {
+    return new List(this.windows(windowSize, options));
+  }
+
+  // Windows starting every `step` elements; trailing windows shorter than `windowSize` are
+  // dropped unless `partial` is set
+  private windows(windowSize: number, options: WindowOptions): List<T>[] {
+    const { step = 1, partial = false } = options;
+    if (this.isStrict) assertSize('Window size', windowSize, true);
+    assertSize('Window step', step, this.isStrict);
     const result: List<T>[] = [];
-    for (let i = 0; i <= this.length - windowSize; i++) {
+    const last = partial ? this.items.length - 1 : this.items.length - windowSize;
+    for (let i = 0; i <= last; i += step) {
       result.push(new List(this.items.slice(i, i + windowSize)));
     }
-    return new List(result);
+    return result;
   }
 
   // Memoize a function that operates on list elements
-  memoize<U>(fn: (item: T) => U): (item: T) => U {
-    const cache = new Map<T, U>();
+  memoize<U>(fn: (item: T) => U, equality?: EqualityStrategy<T>): (item: T) => U {
+    const cache = new HashMap<T, U>(this.elementEquality(equality));
     return (item: T) => {
       if (cache.has(item)) return cache.get(item)!;
       const result = fn(item);
@@ -755,26 +2407,95 @@ class List<T> {
     };
   }
 
-  // Get the dot product of this list with another (assuming numeric lists)
-  dotProduct(other: List<number>): number {
-    if (this.length !== other.length || !this.items.every((item) => typeof item === 'number')) {
-      throw new Error('Lists must have the same length and contain only numbers');
+  // Vector operations below need numeric lists; operands may be Lists, arrays or, for the
+  // element-wise ones, a scalar applied to every element
+
+  // Get the dot product of this list with another
+  dotProduct(this: List<number>, other: Vector): number {
+    return linalg.dot(...this.vectorArgs('Dot product', other));
+  }
+
+  add(this: List<number>, other: Vector | number): List<number> {
+    return this.elementWise('Add', other, (a, b) => a + b);
+  }
+
+  subtract(this: List<number>, other: Vector | number): List<number> {
+    return this.elementWise('Subtract', other, (a, b) => a - b);
+  }
+
+  multiply(this: List<number>, other: Vector | number): List<number> {
+    return this.elementWise('Multiply', other, (a, b) => a * b);
+  }
+
+  divide(this: List<number>, other: Vector | number): List<number> {
+    return this.elementWise('Divide', other, (a, b) => a / b);
+  }
+
+  scale(this: List<number>, factor: number): List<number> {
+    return this.elementWise('Scale', factor, (a, b) => a * b);
+  }
+
+  // The p-norm: 1 for Manhattan length, 2 (default) for Euclidean length, Infinity for the maximum
+  norm(this: List<number>, p: number = 2): number {
+    assertNumeric('Norm', this.items);
+    return linalg.norm(this.items, p);
+  }
+
+  // Scale to a p-norm of 1; an all-zero vector is returned as is
+  normalize(this: List<number>, p: number = 2): List<number> {
+    const length = this.norm(p);
+    return this.scale(length === 0 ? 1 : 1 / length);
+  }
+
+  // Cosine of the angle between two vectors, NaN if either is all zeros
+  cosineSimilarity(this: List<number>, other: Vector): number {
+    return linalg.cosineSimilarity(...this.vectorArgs('Cosine similarity', other));
+  }
+
+  euclideanDistance(this: List<number>, other: Vector): number {
+    return linalg.euclideanDistance(...this.vectorArgs('Euclidean distance', other));
+  }
+
+  // View a list of equally long numeric rows as a Matrix
+  toMatrix(this: List<List<number> | number[]>): Matrix {
+    return new Matrix(this.items);
+  }
+
+  private vectorArgs(name: string, other: Vector): [number[], number[]] {
+    const values = other instanceof List ? other.items : other;
+    assertNumeric(name, this.items);
+    assertNumeric(name, values);
+    return [this.items as unknown as number[], values as number[]];
+  }
+
+  private elementWise(
+    name: string,
+    other: Vector | number,
+    op: (a: number, b: number) => number
+  ): List<number> {
+    if (typeof other !== 'number') {
+      return new List(linalg.elementWise(name, ...this.vectorArgs(name, other), op));
     }
-    return this.items.reduce(
-      (sum, value, index) => sum + (value as number) * other.items[index],
-      0
-    );
+    assertNumeric(name, this.items);
+    return new List(linalg.elementWise(name, this.items as unknown as number[], other, op));
+  }
+
+  // Flatten a nested list structure, completely unless a depth is given
+  flatten(): List<DeepFlattened<T>>;
+  flatten<D extends number>(depth: D): List<Flattened<T, D>>;
+  flatten<D extends number>(depth?: D): List<DeepFlattened<T>> | List<Flattened<T, D>> {
+    return this.flattenTo<DeepFlattened<T>>(depth ?? Infinity);
   }
 
-  // Flatten a nested list structure
-  flatten(depth: number = Infinity): List<T extends any[] ? T[number] : T> {
-    const flattened: any[] = [];
-    const flatten = (arr: any[], currentDepth: number) => {
-      for (const item of arr) {
-        if (Array.isArray(item) && currentDepth > 0) {
-          flatten(item, currentDepth - 1);
+  private flattenTo<R>(depth: number): List<R> {
+    const flattened: R[] = [];
+    const flatten = (items: readonly unknown[], currentDepth: number) => {
+      for (const item of items) {
+        const nested = item instanceof List ? item.items : Array.isArray(item) ? item : undefined;
+        if (nested && currentDepth > 0) {
+          flatten(nested, currentDepth - 1);
         } else {
-          flattened.push(item);
+          flattened.push(item as R);
         }
       }
     };
@@ -827,23 +2548,12 @@ class List<T> {
 
   // Generate all combinations of k elements
   combinations(k: number): List<List<T>> {
-    const combine = (start: number, current: T[]): void => {
-      if (current.length === k) {
-        result.push(new List(current));
-        return;
-      }
-      for (let i = start; i < this.items.length; i++) {
-        combine(i + 1, [...current, this.items[i]]);
-      }
-    };
-
-    const result: List<T>[] = [];
-    combine(0, []);
-    return new List(result);
+    return this.pick(combinatorics.combinationIndices(this.items.length, k));
   }
 
   // Divide the list into lists of size n, with an optional fill value for the last list
   divideInto(n: number, fill?: T): List<List<T>> {
+    assertSize('Size', n, this.isStrict);
     const result: List<T>[] = [];
     for (let i = 0; i < this.items.length; i += n) {
       const chunk = this.items.slice(i, i + n);
@@ -856,42 +2566,94 @@ class List<T> {
   }
 
   // Apply a sliding function to the list
-  slidingApply<U>(windowSize: number, fn: (window: List<T>) => U): List<U> {
-    const result: U[] = [];
-    for (let i = 0; i <= this.items.length - windowSize; i++) {
-      result.push(fn(new List(this.items.slice(i, i + windowSize))));
-    }
-    return new List(result);
+  slidingApply<U>(
+    windowSize: number,
+    fn: (window: List<T>) => U,
+    options: WindowOptions = {}
+  ): List<U> {
+    return new List(this.windows(windowSize, options).map((window) => fn(window)));
   }
 
-  // Create a histogram of the list elements
+  // Create a histogram of the list elements, keyed by "start-end" labels
   histogram(bins: number = 10): Map<string, number> {
-    if (!this.items.every((item) => typeof item === 'number')) {
-      throw new Error('Histogram is only applicable for numeric lists');
-    }
-    const numbers = this.items as number[];
-    const min = Math.min(...numbers);
-    const max = Math.max(...numbers);
-    const binSize = (max - min) / bins;
+    assertNumeric('Histogram', this.items);
+    if (this.isStrict) assertSize('Bin count', bins, true);
     const histogram = new Map<string, number>();
-
-    for (let i = 0; i < bins; i++) {
-      const binStart = min + i * binSize;
-      const binEnd = binStart + binSize;
-      const key = `${binStart.toFixed(2)}-${binEnd.toFixed(2)}`;
-      histogram.set(key, 0);
+    for (const bin of binValues(this.items, this.items as unknown as number[], { bins })) {
+      const key = `${bin.start.toFixed(2)}-${bin.end.toFixed(2)}`;
+      histogram.set(key, (histogram.get(key) || 0) + bin.count);
     }
+    return histogram;
+  }
 
-    for (const num of numbers) {
-      const binIndex = Math.min(Math.floor((num - min) / binSize), bins - 1);
-      const binStart = min + binIndex * binSize;
-      const binEnd = binStart + binSize;
-      const key = `${binStart.toFixed(2)}-${binEnd.toFixed(2)}`;
-      histogram.set(key, (histogram.get(key) || 0) + 1);
-    }
+  // Split numeric values (or values picked by `accessor`) into structured bins
+  bins(this: List<number>, options?: Omit<BinOptions<number>, 'accessor'>): List<Bin<number>>;
+  bins(options: BinOptions<T> & { accessor: StatsAccessor<T> }): List<Bin<T>>;
+  bins(options: BinOptions<T> = {}): List<Bin<T>> | List<Bin<number>> {
+    const [values] = this.statsArgs('Binning', options.accessor);
+    return new List(binValues(this.items, values, options));
+  }
 
-    return histogram;
+  // Count elements per category (the element itself, or the key returned by `keyFn`)
+  categoryBins<K = T>(
+    keyFn: (item: T) => K = (item) => item as unknown as K,
+    options: CategoryBinOptions = {}
+  ): List<CategoryBin<K, T>> {
+    return new List(binCategories(this.items, keyFn, options));
   }
 }
 
+export type { Aggregator, AggregatorResults, Field } from './aggregate';
+export type { SetMatcher, SetOptions } from './bag';
+export type { RandomOptions, RandomSource, SampleOptions } from './random';
+export type {
+  CommonSubstring,
+  DiffOp,
+  DiffOpType,
+  DiffOptions,
+  EditDistanceOptions,
+  Patch,
+} from './diff';
+export type { Equality, EqualityStrategy } from './equality';
+export type { HistoryOptions, ListEdit } from './history';
+export type {
+  Bin,
+  BinNormalization,
+  BinOptions,
+  BinRule,
+  CategoryBin,
+  CategoryBinOptions,
+} from './binning';
+export type {
+  CsvColumnType,
+  CsvParseOptions,
+  CsvWriteOptions,
+  JSONReviver,
+  ParseOptions,
+  SerializeOptions,
+} from './serialization';
+export type { Description, QuantileMethod, QuantileOptions, VarianceOptions } from './stats';
+export type { StreamBatchOptions, StreamFormat, StreamWriteOptions } from './streams';
+export type {
+  AsyncOptions,
+  DeepFlattened,
+  EachCallback,
+  EachContext,
+  EachGuard,
+  EachOptions,
+  Flattened,
+  ListSnapshot,
+  SortDirection,
+  SortKey,
+  SortKeyOptions,
+  SortMethod,
+  StatsAccessor,
+  TypedArrayType,
+  Unwrapped,
+  Unzipped,
+  Vector,
+  WindowOptions,
+  ZipSources,
+};
+
 export default List;
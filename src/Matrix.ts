@@ -0,0 +1,96 @@
+import List from './List';
+import * as linalg from './linalg';
+
+// A rectangular grid of numbers, built from a `List<List<number>>` or nested arrays. Matrices
+// are immutable: operations return new matrices, and `toList` converts back.
+class Matrix implements Iterable<List<number>> {
+  private readonly rows: number[][];
+  private readonly columns: number;
+
+  constructor(rows: Iterable<List<number> | readonly number[]> = []) {
+    this.rows = Array.from(rows, (row) => (row instanceof List ? row.toArray() : row.slice()));
+    linalg.assertMatrix(this.rows);
+    this.columns = this.rows.length === 0 ? 0 : this.rows[0].length;
+  }
+
+  static identity(n: number): Matrix {
+    return new Matrix(linalg.identity(n));
+  }
+
+  *[Symbol.iterator](): Iterator<List<number>> {
+    for (const row of this.rows) yield new List(row.slice());
+  }
+
+  [Symbol.toStringTag] = 'Matrix';
+
+  get rowCount(): number {
+    return this.rows.length;
+  }
+
+  get columnCount(): number {
+    return this.columns;
+  }
+
+  get isSquare(): boolean {
+    return this.rows.length === this.columns;
+  }
+
+  get(row: number, column: number): number | undefined {
+    return this.rows[row]?.[column];
+  }
+
+  row(index: number): List<number> {
+    return new List((this.rows[index] ?? []).slice());
+  }
+
+  column(index: number): List<number> {
+    return new List(index < this.columns ? this.rows.map((row) => row[index]) : []);
+  }
+
+  transpose(): Matrix {
+    return new Matrix(linalg.transpose(this.rows, this.columns));
+  }
+
+  // Matrix product, matrix-vector product, or every entry scaled by a number
+  multiply(other: Matrix): Matrix;
+  multiply(vector: List<number> | readonly number[]): List<number>;
+  multiply(scalar: number): Matrix;
+  multiply(other: Matrix | List<number> | readonly number[] | number): Matrix | List<number> {
+    if (typeof other === 'number') {
+      return new Matrix(this.rows.map((row) => row.map((value) => value * other)));
+    }
+    if (other instanceof Matrix) {
+      return new Matrix(linalg.multiply(this.rows, other.rows, other.columns));
+    }
+    const vector = other instanceof List ? other.toArray() : other;
+    const product = linalg.multiply(
+      this.rows,
+      vector.map((value) => [value]),
+      1
+    );
+    return new List(product.map(([value]) => value));
+  }
+
+  determinant(): number {
+    return linalg.determinant(this.rows);
+  }
+
+  // Throws a ListArgumentError for singular matrices
+  inverse(): Matrix {
+    return new Matrix(linalg.inverse(this.rows));
+  }
+
+  toArray(): number[][] {
+    return this.rows.map((row) => row.slice());
+  }
+
+  toList(): List<List<number>> {
+    return new List(Array.from(this));
+  }
+
+  toJSON(): number[][] {
+    return this.toArray();
+  }
+}
+
+export default Matrix;
@@ -0,0 +1,370 @@
+import List from './List';
+import type {
+  HistoryOptions,
+  ListEdit,
+  ListSnapshot,
+  RandomOptions,
+  SortDirection,
+  SortKey,
+  SortMethod,
+} from './List';
+import { ListError, ListRangeError, assertIndex } from './errors';
+import { spliceBetween } from './history';
+
+type ListChange<T> =
+  | { type: 'insert'; index: number; items: T[] }
+  | { type: 'remove'; index: number; items: T[] }
+  | { type: 'replace'; index: number; items: T[]; oldItems: T[] }
+  // `items` moved from index `from` so they now start at `index`
+  | { type: 'move'; index: number; from: number; items: T[] }
+  | { type: 'reset'; index: 0; items: T[]; oldItems: T[] };
+
+// Listeners receive every change of one operation (or one `batch`) together
+type ChangeListener<T> = (changes: ListChange<T>[]) => void;
+
+// A List that notifies subscribers about every change to its contents.
+// Bulk reorders (`sort`, `shuffle`, `reverse`, ...) are reported as a single 'reset'.
+class ObservableList<T> extends List<T> {
+  private listeners = new Set<ChangeListener<T>>();
+  private pending: ListChange<T>[] = [];
+  private batchDepth = 0;
+  // Live views are only updated by their source
+  private isView = false;
+  private disposers: (() => void)[] = [];
+
+  constructor(initialItems: Iterable<T> = []) {
+    super(Array.from(initialItems));
+  }
+
+  [Symbol.toStringTag] = 'ObservableList';
+
+  subscribe(listener: ChangeListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => this.unsubscribe(listener);
+  }
+
+  unsubscribe(listener: ChangeListener<T>): boolean {
+    return this.listeners.delete(listener);
+  }
+
+  // Run `fn` and deliver all changes it makes as one notification (and one undo step)
+  batch<R>(fn: () => R): R {
+    this.batchDepth++;
+    try {
+      return super.batch(fn);
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0 && this.pending.length > 0) {
+        const changes = this.pending;
+        this.pending = [];
+        this.notify(changes);
+      }
+    }
+  }
+
+  // Stop a live view from following its source
+  dispose(): void {
+    this.disposers.forEach((dispose) => dispose());
+    this.disposers = [];
+  }
+
+  enableHistory(options?: HistoryOptions): this {
+    this.assertWritable();
+    return super.enableHistory(options);
+  }
+
+  // Reported as the single splice between the current and the restored contents
+  restore(snapshot: ListSnapshot<T>): this {
+    this.assertWritable();
+    const edit = spliceBetween(this.items, snapshot.items);
+    if (edit) this.splice(edit.index, edit.removed.length, edit.inserted);
+    return this;
+  }
+
+  // Changes made by `fn` are delivered as one batch; a synchronous rollback delivers none
+  transaction<R>(fn: (list: this) => R): R {
+    this.assertWritable();
+    const pendingCount = this.pending.length;
+    return this.batch(() => {
+      try {
+        return super.transaction(fn);
+      } catch (error) {
+        this.pending.splice(pendingCount);
+        throw error;
+      }
+    });
+  }
+
+  push(...elements: T[]): number {
+    this.assertWritable();
+    this.splice(this.length, 0, elements);
+    return this.length;
+  }
+
+  unshift(...elements: T[]): number {
+    this.assertWritable();
+    this.splice(0, 0, elements);
+    return this.length;
+  }
+
+  insert(element: T, index: number): void {
+    this.assertWritable();
+    if (this.isStrict) assertIndex(index, this.length, true);
+    this.splice(this.clampIndex(index), 0, [element]);
+  }
+
+  pop(): T | undefined {
+    this.assertWritable();
+    return this.length === 0 ? undefined : this.splice(this.length - 1, 1, [])[0];
+  }
+
+  shift(): T | undefined {
+    this.assertWritable();
+    return this.length === 0 ? undefined : this.splice(0, 1, [])[0];
+  }
+
+  remove(index: number): T | undefined {
+    this.assertWritable();
+    if (this.isStrict) assertIndex(index, this.length);
+    const resolved = this.clampIndex(index);
+    return resolved < this.length ? this.splice(resolved, 1, [])[0] : undefined;
+  }
+
+  // Replace the element at `index`
+  set(index: number, value: T): void {
+    this.assertWritable();
+    const resolved = index < 0 ? this.length + index : index;
+    if (resolved < 0 || resolved >= this.length) {
+      throw new ListRangeError(`Index ${index} is out of bounds`);
+    }
+    this.splice(resolved, 1, [value]);
+  }
+
+  fill(value: T, start?: number, end?: number): List<T> {
+    this.assertWritable();
+    const from = start === undefined ? 0 : this.clampIndex(start);
+    const to = end === undefined ? this.length : this.clampIndex(end);
+    if (to > from) {
+      this.splice(from, to - from, Array(to - from).fill(value));
+    }
+    return this;
+  }
+
+  insertSorted(value: T, compare?: (a: T, b: T) => number): number {
+    this.assertWritable();
+    const index = this.upperBound(value, compare);
+    this.splice(index, 0, [value]);
+    return index;
+  }
+
+  rotate(k: number): List<T> {
+    this.assertWritable();
+    if (this.length === 0) return this;
+    k = k % this.length;
+    if (k < 0) k += this.length;
+    if (k === 0) return this;
+
+    const from = this.length - k;
+    const moved = this.items.slice(from);
+    super.rotate(k);
+    this.emit({ type: 'move', index: 0, from, items: moved });
+    return this;
+  }
+
+  sort(
+    directionOrCompare?: SortDirection | ((a: T, b: T) => number),
+    method?: SortMethod
+  ): List<T> {
+    return this.reset(() => super.sort(directionOrCompare, method));
+  }
+
+  sortBy(keys: SortKey<T> | SortKey<T>[], method?: SortMethod): List<T> {
+    return this.reset(() => super.sortBy(keys, method));
+  }
+
+  shuffle(options?: RandomOptions): List<T> {
+    return this.reset(() => super.shuffle(options));
+  }
+
+  reverse(): List<T> {
+    return this.reset(() => super.reverse());
+  }
+
+  reverseWithEach(): List<T> {
+    return this.reset(() => super.reverseWithEach());
+  }
+
+  // A live view of the elements passing `predicate`, updated from this list's changes
+  filterLive(predicate: (value: T) => boolean): ObservableList<T> {
+    const view = this.createView<T>();
+    // Whether each source element is part of the view
+    let mask: boolean[] = [];
+    const viewIndex = (sourceIndex: number) =>
+      mask.slice(0, sourceIndex).filter((passed) => passed).length;
+
+    const insert = (index: number, items: T[]) => {
+      const passed = items.map((item) => predicate(item));
+      view.splice(
+        viewIndex(index),
+        0,
+        items.filter((_, i) => passed[i])
+      );
+      mask.splice(index, 0, ...passed);
+    };
+
+    const remove = (index: number, count: number) => {
+      const removed = mask.slice(index, index + count).filter((passed) => passed).length;
+      view.splice(viewIndex(index), removed, []);
+      mask.splice(index, count);
+    };
+
+    // Use the items recorded in the change, later changes in the same batch are replayed after it
+    const reset = (items: T[]) => {
+      mask = items.map((item) => predicate(item));
+      view.resetTo(items.filter((_, i) => mask[i]));
+    };
+
+    reset(this.items);
+    this.follow(view, (change) => {
+      switch (change.type) {
+        case 'insert':
+          return insert(change.index, change.items);
+        case 'remove':
+          return remove(change.index, change.items.length);
+        case 'replace':
+          change.items.forEach((item, i) => {
+            const index = change.index + i;
+            const wasIn = mask[index];
+            const isIn = predicate(item);
+            if (wasIn && isIn) view.splice(viewIndex(index), 1, [item]);
+            else if (wasIn) view.splice(viewIndex(index), 1, []);
+            else if (isIn) view.splice(viewIndex(index), 0, [item]);
+            mask[index] = isIn;
+          });
+          return;
+        case 'move':
+          remove(change.from, change.items.length);
+          return insert(change.index, change.items);
+        default:
+          return reset(change.items);
+      }
+    });
+    return view;
+  }
+
+  // A live view of `fn` applied to each element, updated from this list's changes
+  mapLive<U>(fn: (value: T) => U): ObservableList<U> {
+    const view = this.createView<U>();
+    view.resetTo(this.items.map((item) => fn(item)));
+
+    this.follow(view, (change) => {
+      switch (change.type) {
+        case 'insert':
+          return view.splice(
+            change.index,
+            0,
+            change.items.map((item) => fn(item))
+          );
+        case 'remove':
+          return view.splice(change.index, change.items.length, []);
+        case 'replace':
+          return view.splice(
+            change.index,
+            change.items.length,
+            change.items.map((item) => fn(item))
+          );
+        case 'move':
+          return view.moveItems(change.from, change.index, change.items.length);
+        default:
+          return view.resetTo(change.items.map((item) => fn(item)));
+      }
+    });
+    return view;
+  }
+
+  private createView<U>(): ObservableList<U> {
+    const view = new ObservableList<U>();
+    view.isView = true;
+    return view;
+  }
+
+  // Replay each batch of source changes onto a view as one batch of view changes
+  private follow<U>(view: ObservableList<U>, apply: (change: ListChange<T>) => void): void {
+    const unsubscribe = this.subscribe((changes) => view.batch(() => changes.forEach(apply)));
+    view.disposers.push(unsubscribe);
+  }
+
+  protected replayEdit(edit: ListEdit<T>): void {
+    switch (edit.type) {
+      case 'splice':
+        this.splice(edit.index, edit.removed.length, edit.inserted);
+        return;
+      case 'move':
+        return this.moveItems(edit.from, edit.to, edit.count);
+      default:
+        return this.resetTo(Array.from(edit.order, (from) => this.items[from]));
+    }
+  }
+
+  // Remove `deleteCount` elements at `index` and insert `inserted` there, emitting the change
+  private splice(index: number, deleteCount: number, inserted: T[]): T[] {
+    const removed = this.items.splice(index, deleteCount, ...inserted);
+    this.recordEdit({ type: 'splice', index, removed, inserted: inserted.slice() });
+
+    if (removed.length > 0 && removed.length === inserted.length) {
+      this.emit({ type: 'replace', index, items: inserted.slice(), oldItems: removed });
+      return removed;
+    }
+
+    this.batch(() => {
+      if (removed.length > 0) this.emit({ type: 'remove', index, items: removed });
+      if (inserted.length > 0) this.emit({ type: 'insert', index, items: inserted.slice() });
+    });
+    return removed;
+  }
+
+  // Move `count` elements starting at `from` so they start at `to`
+  private moveItems(from: number, to: number, count: number): void {
+    const moved = this.items.splice(from, count);
+    this.items.splice(to, 0, ...moved);
+    this.emit({ type: 'move', index: to, from, items: moved });
+  }
+
+  private reset(operation: () => void): this {
+    this.assertWritable();
+    const oldItems = this.items.slice();
+    operation();
+    this.emit({ type: 'reset', index: 0, items: this.items.slice(), oldItems });
+    return this;
+  }
+
+  private resetTo(items: T[]): void {
+    const oldItems = this.items;
+    this.items = items;
+    this.emit({ type: 'reset', index: 0, items: items.slice(), oldItems });
+  }
+
+  private emit(change: ListChange<T>): void {
+    if (this.batchDepth > 0) {
+      this.pending.push(change);
+    } else {
+      this.notify([change]);
+    }
+  }
+
+  private notify(changes: ListChange<T>[]): void {
+    for (const listener of Array.from(this.listeners)) {
+      listener(changes);
+    }
+  }
+
+  private assertWritable(): void {
+    if (this.isView) {
+      throw new ListError('Live views are read-only; change their source list instead');
+    }
+  }
+}
+
+export type { ChangeListener, ListChange };
+
+export default ObservableList;
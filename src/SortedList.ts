@@ -0,0 +1,111 @@
+import List from './List';
+import type { ListSnapshot, RandomOptions, SortDirection, SortKey, SortMethod } from './List';
+import { ListArgumentError, ListError } from './errors';
+
+// A List that keeps its elements ordered by a comparator. Inserts go through
+// binary search, and methods that would reorder elements arbitrarily throw.
+class SortedList<T> extends List<T> {
+  private readonly compare: (a: T, b: T) => number;
+
+  constructor(initialItems: Iterable<T> = [], compare?: (a: T, b: T) => number) {
+    super(Array.from(initialItems));
+    this.compare = compare ?? super.sortedCompare();
+    super.sort(this.compare, 'merge');
+  }
+
+  public static from<T>(items: Iterable<T>, compare?: (a: T, b: T) => number): SortedList<T> {
+    return new SortedList(items, compare);
+  }
+
+  [Symbol.toStringTag] = 'SortedList';
+
+  protected sortedCompare(compare?: (a: T, b: T) => number): (a: T, b: T) => number {
+    return compare ?? this.compare;
+  }
+
+  push(...elements: T[]): number {
+    for (const element of elements) {
+      this.insertSorted(element);
+    }
+    return this.length;
+  }
+
+  unshift(...elements: T[]): number {
+    return this.push(...elements);
+  }
+
+  // The index is ignored: elements always go to their sorted position
+  insert(element: T, _index?: number): void {
+    this.insertSorted(element);
+  }
+
+  insertSorted(value: T, compare?: (a: T, b: T) => number): number {
+    this.assertComparator(compare);
+    return super.insertSorted(value);
+  }
+
+  mergeSorted(other: List<T>, compare?: (a: T, b: T) => number): SortedList<T> {
+    this.assertComparator(compare);
+    const merged = new SortedList<T>([], this.compare);
+    merged.items = super.mergeSorted(other).toArray();
+    return merged;
+  }
+
+  // Snapshots may come from other Lists or be built by hand, so they are sorted on the way in
+  restore(snapshot: ListSnapshot<T>): this {
+    return this.batch(() => {
+      super.restore(snapshot);
+      super.sort(this.compare, 'merge');
+      return this;
+    });
+  }
+
+  // Already sorted; a different order would break the invariant
+  sort(
+    directionOrCompare?: SortDirection | ((a: T, b: T) => number),
+    _method?: SortMethod
+  ): List<T> {
+    if (directionOrCompare !== undefined && directionOrCompare !== this.compare) {
+      throw this.orderError('sort');
+    }
+    return this;
+  }
+
+  sortBy(_keys: SortKey<T> | SortKey<T>[], _method?: SortMethod): List<T> {
+    throw this.orderError('sortBy');
+  }
+
+  shuffle(_options?: RandomOptions): List<T> {
+    throw this.orderError('shuffle');
+  }
+
+  rotate(_k: number): List<T> {
+    throw this.orderError('rotate');
+  }
+
+  reverse(): List<T> {
+    throw this.orderError('reverse');
+  }
+
+  reverseWithEach(): List<T> {
+    throw this.orderError('reverseWithEach');
+  }
+
+  fill(_value: T, _start?: number, _end?: number): List<T> {
+    throw this.orderError('fill');
+  }
+
+  private assertComparator(compare?: (a: T, b: T) => number): void {
+    if (compare && compare !== this.compare) {
+      throw new ListArgumentError('SortedList only accepts its own comparator');
+    }
+  }
+
+  private orderError(method: string): ListError {
+    return new ListError(
+      `${method} would break the order of a SortedList; use a List copy instead`
+    );
+  }
+}
+
+export default SortedList;
@@ -0,0 +1,81 @@
+import type List from './List';
+import { kahanSum, quantileSorted, sortNumbers } from './stats';
+
+// Reduces one group to a value, e.g. `sum('amount')` or `count()`
+type Aggregator<T, R> = (group: List<T>) => R;
+
+// A property name or an accessor selecting the aggregated value
+type Field<T, V = unknown> = (keyof T & string) | ((item: T) => V);
+
+type AggregatorResults<A> = { [P in keyof A]: A[P] extends Aggregator<never, infer R> ? R : never };
+
+const accessor =
+  <T, V>(field: Field<T, V>) =>
+  (item: T): V =>
+    typeof field === 'function' ? field(item) : (item[field] as unknown as V);
+
+const values = <T, V>(group: List<T>, field: Field<T, V>): V[] =>
+  group.toArray().map(accessor(field));
+
+const count =
+  <T = unknown>(): Aggregator<T, number> =>
+  (group) =>
+    group.length;
+
+const countDistinct =
+  <T = unknown>(field: Field<T>): Aggregator<T, number> =>
+  (group) =>
+    new Set(values(group, field)).size;
+
+const sum =
+  <T = unknown>(field: Field<T, number>): Aggregator<T, number> =>
+  (group) =>
+    kahanSum(values(group, field));
+
+// NaN for an empty group
+const mean =
+  <T = unknown>(field: Field<T, number>): Aggregator<T, number> =>
+  (group) =>
+    group.length === 0 ? NaN : kahanSum(values(group, field)) / group.length;
+
+const median =
+  <T = unknown>(field: Field<T, number>): Aggregator<T, number> =>
+  (group) =>
+    group.length === 0 ? NaN : quantileSorted(sortNumbers(values(group, field)), 0.5);
+
+// Smallest value by `<`, undefined for an empty group
+const min =
+  <T = unknown, V = unknown>(field: Field<T, V>): Aggregator<T, V | undefined> =>
+  (group) =>
+    values(group, field).reduce<V | undefined>(
+      (best, value) => (best === undefined || value < (best as V) ? value : best),
+      undefined
+    );
+
+const max =
+  <T = unknown, V = unknown>(field: Field<T, V>): Aggregator<T, V | undefined> =>
+  (group) =>
+    values(group, field).reduce<V | undefined>(
+      (best, value) => (best === undefined || value > (best as V) ? value : best),
+      undefined
+    );
+
+const first =
+  <T = unknown, V = unknown>(field: Field<T, V>): Aggregator<T, V | undefined> =>
+  (group) =>
+    group.length === 0 ? undefined : accessor(field)(group.first as T);
+
+const last =
+  <T = unknown, V = unknown>(field: Field<T, V>): Aggregator<T, V | undefined> =>
+  (group) =>
+    group.length === 0 ? undefined : accessor(field)(group.last as T);
+
+// All values of the group, in order
+const collect =
+  <T = unknown, V = unknown>(field: Field<T, V>): Aggregator<T, V[]> =>
+  (group) =>
+    values(group, field);
+
+export type { Aggregator, AggregatorResults, Field };
+
+export { collect, count, countDistinct, first, last, max, mean, median, min, sum };
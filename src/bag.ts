@@ -0,0 +1,90 @@
+import { HashMap } from './equality';
+
+type SetMatcher<T> = {
+  // Elements match when their keys are SameValueZero-equal
+  key?: (item: T) => unknown;
+  // Elements match when this returns true; O(n) per lookup unless `hash` is also given
+  equals?: (a: T, b: T) => boolean;
+  // Hash consistent with `equals`, enables O(1) lookups
+  hash?: (item: T) => number;
+};
+
+type SetOptions<T> = SetMatcher<T> & {
+  // Respect duplicate counts (bag semantics) instead of treating lists as sets
+  multiset?: boolean;
+};
+
+// A counted collection of elements, matched by key or by an equality comparator
+type Bag<T> = {
+  add(item: T): void;
+  count(item: T): number;
+  // Remove one occurrence, returning false if there was none
+  take(item: T): boolean;
+};
+
+// Counts per key, with the keys compared by `counts`
+const countingBag = <T, K>(key: (item: T) => K, counts: HashMap<K, number>): Bag<T> => ({
+  add(item) {
+    const k = key(item);
+    counts.set(k, (counts.get(k) || 0) + 1);
+  },
+  count: (item) => counts.get(key(item)) || 0,
+  take(item) {
+    const k = key(item);
+    const count = counts.get(k) || 0;
+    if (count === 0) return false;
+    counts.set(k, count - 1);
+    return true;
+  },
+});
+
+const createBag = <T>(matcher: SetMatcher<T> = {}, items: Iterable<T> = []): Bag<T> => {
+  let bag: Bag<T>;
+
+  if (matcher.equals && !matcher.key && !matcher.hash) {
+    const equals = matcher.equals;
+    const entries: { item: T; count: number }[] = [];
+    const find = (item: T) => entries.find((entry) => entry.count > 0 && equals(entry.item, item));
+
+    bag = {
+      add(item) {
+        const entry = find(item);
+        if (entry) entry.count++;
+        else entries.push({ item, count: 1 });
+      },
+      count: (item) => find(item)?.count ?? 0,
+      take(item) {
+        const entry = find(item);
+        if (!entry) return false;
+        entry.count--;
+        return true;
+      },
+    };
+  } else if (matcher.equals && matcher.hash && !matcher.key) {
+    // Without a key selector, a hashed equality compares the elements themselves
+    const { equals, hash } = matcher;
+    bag = countingBag((item: T) => item, new HashMap<T, number>({ equals, hash }));
+  } else {
+    bag = countingBag(matcher.key ?? ((item: T): unknown => item), new HashMap<unknown, number>());
+  }
+
+  for (const item of items) bag.add(item);
+  return bag;
+};
+
+// Keep the first occurrence of each distinct element
+const uniqueItems = <T>(items: Iterable<T>, matcher: SetMatcher<T> = {}): T[] => {
+  const seen = createBag(matcher);
+  const result: T[] = [];
+  for (const item of items) {
+    if (seen.count(item) === 0) {
+      seen.add(item);
+      result.push(item);
+    }
+  }
+  return result;
+};
+
+export type { Bag, SetMatcher, SetOptions };
+
+export { createBag, uniqueItems };
@@ -0,0 +1,209 @@
+import { ListArgumentError } from './errors';
+import { quantileSorted, sortNumbers, standardDeviation } from './stats';
+
+type BinRule = 'sturges' | 'scott' | 'freedman-diaconis';
+
+type BinNormalization = 'count' | 'probability' | 'density';
+
+type BinOptions<T> = {
+  // Number of bins, a bin-width rule, or explicit ascending edges (default: 10)
+  bins?: number | BinRule | number[];
+  // 'width' for equal-width bins, 'quantile' for equal-frequency bins
+  strategy?: 'width' | 'quantile';
+  accessor?: (item: T) => number;
+  // Which side of each interior edge is inclusive: [a, b) for 'left', (a, b] for 'right'
+  closed?: 'left' | 'right';
+  // What `value` holds for each bin (default: 'count')
+  normalize?: BinNormalization;
+  // Accumulate `value` across bins
+  cumulative?: boolean;
+};
+
+type Bin<T> = {
+  start: number;
+  end: number;
+  count: number;
+  items: T[];
+  value: number;
+};
+
+type CategoryBin<K, T> = {
+  key: K;
+  count: number;
+  items: T[];
+  value: number;
+};
+
+type CategoryBinOptions = {
+  normalize?: Exclude<BinNormalization, 'density'>;
+  cumulative?: boolean;
+  // Order of the categories (default: first occurrence)
+  sort?: 'count' | 'key' | 'none';
+};
+
+const ruleBinCount = (rule: BinRule, sorted: readonly number[]): number => {
+  const n = sorted.length;
+  const sturges = Math.ceil(Math.log2(n)) + 1;
+  const range = sorted[n - 1] - sorted[0];
+
+  let width = 0;
+  if (rule === 'scott') {
+    width = 3.49 * standardDeviation(sorted) * Math.pow(n, -1 / 3);
+  } else if (rule === 'freedman-diaconis') {
+    const iqr = quantileSorted(sorted, 0.75) - quantileSorted(sorted, 0.25);
+    width = 2 * iqr * Math.pow(n, -1 / 3);
+  } else {
+    return Math.max(sturges, 1);
+  }
+
+  // Degenerate spread (e.g. all values equal) falls back to Sturges
+  return width > 0 ? Math.max(Math.ceil(range / width), 1) : Math.max(sturges, 1);
+};
+
+const computeEdges = <T>(sorted: readonly number[], options: BinOptions<T>): number[] => {
+  const { bins = 10, strategy = 'width' } = options;
+
+  if (Array.isArray(bins)) {
+    if (bins.length < 2) {
+      throw new ListArgumentError('At least two bin edges are required');
+    }
+    for (let i = 1; i < bins.length; i++) {
+      if (!(bins[i] > bins[i - 1])) {
+        throw new ListArgumentError('Bin edges must be strictly increasing');
+      }
+    }
+    return bins.slice();
+  }
+
+  if (sorted.length === 0) return [];
+
+  const count = typeof bins === 'number' ? bins : ruleBinCount(bins, sorted);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new ListArgumentError('Bin count must be a positive integer');
+  }
+
+  if (strategy === 'quantile') {
+    const edges: number[] = [];
+    for (let i = 0; i <= count; i++) {
+      const edge = quantileSorted(sorted, i / count);
+      // Repeated values can produce duplicate quantiles, which would create empty bins
+      if (edges.length === 0 || edge > edges[edges.length - 1]) edges.push(edge);
+    }
+    if (edges.length === 1) edges.push(edges[0]);
+    return edges;
+  }
+
+  let min = sorted[0];
+  let max = sorted[sorted.length - 1];
+  if (min === max) {
+    min -= 0.5;
+    max += 0.5;
+  }
+
+  const width = (max - min) / count;
+  const edges = Array.from({ length: count }, (_, i) => min + i * width);
+  edges.push(max);
+  return edges;
+};
+
+// Index of the bin containing `value`, or -1 if it lies outside the edges
+const findBin = (edges: readonly number[], value: number, closed: 'left' | 'right'): number => {
+  const last = edges.length - 1;
+  if (last < 1 || value < edges[0] || value > edges[last]) return -1;
+  if (value === edges[0]) return 0;
+  if (value === edges[last]) return last - 1;
+
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >>> 1;
+    const goesRight = closed === 'left' ? value >= edges[mid] : value > edges[mid];
+    if (goesRight) low = mid;
+    else high = mid;
+  }
+  return low;
+};
+
+const applyNormalization = (
+  bins: { count: number; value: number; start?: number; end?: number }[],
+  total: number,
+  normalize: BinNormalization,
+  cumulative: boolean
+): void => {
+  let running = 0;
+  for (const bin of bins) {
+    let value = bin.count;
+    if (normalize === 'probability') {
+      value = total === 0 ? 0 : bin.count / total;
+    } else if (normalize === 'density') {
+      const width = bin.end! - bin.start!;
+      value = total === 0 || width === 0 ? 0 : bin.count / (total * width);
+    }
+    // Cumulative density accumulates the bin areas so the last bin reaches 1
+    running += normalize === 'density' ? value * (bin.end! - bin.start!) : value;
+    bin.value = cumulative ? running : value;
+  }
+};
+
+const binValues = <T>(
+  items: readonly T[],
+  values: readonly number[],
+  options: BinOptions<T>
+): Bin<T>[] => {
+  const { closed = 'left', normalize = 'count', cumulative = false } = options;
+
+  const finite = values.filter((value) => Number.isFinite(value));
+  const edges = computeEdges(sortNumbers(finite), options);
+
+  const bins: Bin<T>[] = [];
+  for (let i = 0; i < edges.length - 1; i++) {
+    bins.push({ start: edges[i], end: edges[i + 1], count: 0, items: [], value: 0 });
+  }
+
+  let total = 0;
+  values.forEach((value, index) => {
+    if (!Number.isFinite(value)) return;
+    const binIndex = findBin(edges, value, closed);
+    if (binIndex === -1) return;
+    bins[binIndex].count++;
+    bins[binIndex].items.push(items[index]);
+    total++;
+  });
+
+  applyNormalization(bins, total, normalize, cumulative);
+  return bins;
+};
+
+const binCategories = <K, T>(
+  items: readonly T[],
+  keyFn: (item: T) => K,
+  options: CategoryBinOptions = {}
+): CategoryBin<K, T>[] => {
+  const { normalize = 'count', cumulative = false, sort = 'none' } = options;
+  const groups = new Map<K, CategoryBin<K, T>>();
+
+  for (const item of items) {
+    const key = keyFn(item);
+    let bin = groups.get(key);
+    if (!bin) {
+      bin = { key, count: 0, items: [], value: 0 };
+      groups.set(key, bin);
+    }
+    bin.count++;
+    bin.items.push(item);
+  }
+
+  const bins = Array.from(groups.values());
+  if (sort === 'count') {
+    bins.sort((a, b) => b.count - a.count);
+  } else if (sort === 'key') {
+    bins.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  applyNormalization(bins, items.length, normalize, cumulative);
+  return bins;
+};
+
+export type { Bin, BinNormalization, BinOptions, BinRule, CategoryBin, CategoryBinOptions };
+
+export { binCategories, binValues };
@@ -0,0 +1,84 @@
+import ImmutableList from './ImmutableList';
+import List from './List';
+
+// Values without copyable contents are shared between the original and the copy
+const isShared = (value: object): boolean =>
+  typeof value === 'function' ||
+  value instanceof ImmutableList ||
+  value instanceof Promise ||
+  value instanceof WeakMap ||
+  value instanceof WeakSet;
+
+// Copy `value` and everything reachable from it. Nested Lists become plain Lists (like
+// `clone()`), other objects keep their prototype, and shared references, cycles included,
+// stay shared in the copy.
+const deepClone = <T>(value: T, seen: Map<object, unknown> = new Map()): T => {
+  if (typeof value !== 'object' && typeof value !== 'function') return value;
+  if (value === null || isShared(value as object)) return value;
+  if (seen.has(value as object)) return seen.get(value as object) as T;
+
+  const source = value as unknown as object;
+  // Containers are registered before their contents are copied, so cycles resolve to them
+  const register = <C>(copy: C): C => {
+    seen.set(source, copy);
+    return copy;
+  };
+
+  if (source instanceof List) {
+    const copy = register(new List<unknown>());
+    for (const item of source) copy.push(deepClone(item, seen));
+    return copy as unknown as T;
+  }
+  if (Array.isArray(source)) {
+    const copy = register([] as unknown[]);
+    for (const item of source) copy.push(deepClone(item, seen));
+    return copy as unknown as T;
+  }
+  if (source instanceof Map) {
+    const copy = register(new Map());
+    source.forEach((v, k) => copy.set(deepClone(k, seen), deepClone(v, seen)));
+    return copy as unknown as T;
+  }
+  if (source instanceof Set) {
+    const copy = register(new Set());
+    source.forEach((v) => copy.add(deepClone(v, seen)));
+    return copy as unknown as T;
+  }
+  if (source instanceof Date) return register(new Date(source.getTime())) as unknown as T;
+  if (source instanceof RegExp) {
+    const copy = register(new RegExp(source.source, source.flags));
+    copy.lastIndex = source.lastIndex;
+    return copy as unknown as T;
+  }
+  if (source instanceof ArrayBuffer) return register(source.slice(0)) as unknown as T;
+  if (source instanceof DataView) {
+    const buffer = deepClone(source.buffer, seen);
+    return register(new DataView(buffer, source.byteOffset, source.byteLength)) as unknown as T;
+  }
+  if (ArrayBuffer.isView(source)) {
+    // Typed arrays; `slice` copies only the viewed part of the buffer
+    return register((source as unknown as Uint8Array).slice()) as unknown as T;
+  }
+
+  const copy = register(Object.create(Object.getPrototypeOf(source)));
+  for (const key of Reflect.ownKeys(source)) {
+    const descriptor = Object.getOwnPropertyDescriptor(source, key)!;
+    if ('value' in descriptor) descriptor.value = deepClone(descriptor.value, seen);
+    Object.defineProperty(copy, key, descriptor);
+  }
+  return copy;
+};
+
+// Replace nested Lists with arrays, descending through Lists and arrays only
+const unwrapLists = (value: unknown, seen: Map<object, unknown[]> = new Map()): unknown => {
+  if (!(value instanceof List) && !Array.isArray(value)) return value;
+  const existing = seen.get(value);
+  if (existing) return existing;
+
+  const result: unknown[] = [];
+  seen.set(value, result);
+  for (const item of value) result.push(unwrapLists(item, seen));
+  return result;
+};
+
+export { deepClone, unwrapLists };
@@ -0,0 +1,280 @@
+import { ListRangeError } from './errors';
+
+// Generators below yield fresh index arrays in lexicographic order, so callers can map them
+// onto their items. Counts are BigInts since they outgrow Number.MAX_SAFE_INTEGER quickly.
+
+const reverseRange = (values: number[], start: number, end: number): void => {
+  for (let i = start, j = end - 1; i < j; i++, j--) {
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+};
+
+// Rearrange `values` into the next greater permutation, equal values included; false when
+// they are already in descending order
+const nextPermutation = (values: number[]): boolean => {
+  let i = values.length - 2;
+  while (i >= 0 && values[i] >= values[i + 1]) i--;
+  if (i < 0) return false;
+
+  let j = values.length - 1;
+  while (values[j] <= values[i]) j--;
+  [values[i], values[j]] = [values[j], values[i]];
+  reverseRange(values, i + 1, values.length);
+  return true;
+};
+
+// k-permutations of 0..n-1; for k = n the order matches the next-permutation algorithm
+function* permutationIndices(n: number, k: number = n): Generator<number[]> {
+  if (k < 0 || k > n) return;
+  const indices = Array.from({ length: n }, (_, i) => i);
+
+  while (true) {
+    yield indices.slice(0, k);
+    // The unused indices after the first k are kept ascending. Reversed, they make the next
+    // permutation of the whole array the one with the next prefix, and an ascending tail.
+    reverseRange(indices, k, n);
+    if (!nextPermutation(indices)) return;
+  }
+}
+
+// Distinct arrangements of a multiset, given how many copies of each distinct value there are
+function* multisetPermutationIndices(counts: number[]): Generator<number[]> {
+  const values: number[] = [];
+  counts.forEach((count, value) => {
+    for (let i = 0; i < count; i++) values.push(value);
+  });
+
+  do {
+    yield values.slice();
+  } while (nextPermutation(values));
+}
+
+function* combinationIndices(n: number, k: number): Generator<number[]> {
+  if (k < 0 || k > n) return;
+  const indices = Array.from({ length: k }, (_, i) => i);
+
+  while (true) {
+    yield indices.slice();
+
+    let i = k - 1;
+    while (i >= 0 && indices[i] === n - k + i) i--;
+    if (i < 0) return;
+
+    indices[i]++;
+    for (let j = i + 1; j < k; j++) {
+      indices[j] = indices[j - 1] + 1;
+    }
+  }
+}
+
+// Non-decreasing index sequences: each element may be picked more than once
+function* multicombinationIndices(n: number, k: number): Generator<number[]> {
+  if (k < 0 || (n === 0 && k > 0)) return;
+  const indices: number[] = Array(k).fill(0);
+
+  while (true) {
+    yield indices.slice();
+
+    let i = k - 1;
+    while (i >= 0 && indices[i] === n - 1) i--;
+    if (i < 0) return;
+
+    indices[i]++;
+    for (let j = i + 1; j < k; j++) {
+      indices[j] = indices[i];
+    }
+  }
+}
+
+// Subsets by increasing size, each size in lexicographic order
+function* powerSetIndices(n: number): Generator<number[]> {
+  for (let k = 0; k <= n; k++) {
+    yield* combinationIndices(n, k);
+  }
+}
+
+// One index per dimension, the last one varying fastest
+function* productIndices(lengths: number[]): Generator<number[]> {
+  if (lengths.some((length) => length === 0)) return;
+  const indices: number[] = Array(lengths.length).fill(0);
+
+  while (true) {
+    yield indices.slice();
+
+    let i = lengths.length - 1;
+    while (i >= 0 && indices[i] === lengths[i] - 1) {
+      indices[i] = 0;
+      i--;
+    }
+    if (i < 0) return;
+    indices[i]++;
+  }
+}
+
+// Partitions of 0..n-1 into non-empty blocks (optionally exactly `blocks` of them), as the
+// block number of each index. Blocks are numbered by their first index (restricted growth).
+function* setPartitionBlocks(n: number, blocks?: number): Generator<number[]> {
+  if (blocks !== undefined && (blocks < 0 || blocks > n || (blocks === 0 && n > 0))) return;
+  const assignment: number[] = [];
+
+  function* extend(used: number): Generator<number[]> {
+    const index = assignment.length;
+    if (index === n) {
+      if (blocks === undefined || used === blocks) yield assignment.slice();
+      return;
+    }
+    // Too few elements left to open the blocks still required
+    if (blocks !== undefined && blocks - used > n - index) return;
+
+    const limit = blocks === undefined ? used : Math.min(used, blocks - 1);
+    for (let block = 0; block <= limit; block++) {
+      assignment.push(block);
+      yield* extend(Math.max(used, block + 1));
+      assignment.pop();
+    }
+  }
+
+  yield* extend(0);
+}
+
+// Partitions of n into positive parts, largest parts first, in reverse lexicographic order
+function* integerPartitions(n: number): Generator<number[]> {
+  if (n < 0) return;
+  const parts: number[] = [];
+
+  function* extend(remaining: number, max: number): Generator<number[]> {
+    if (remaining === 0) {
+      yield parts.slice();
+      return;
+    }
+    for (let part = Math.min(remaining, max); part >= 1; part--) {
+      parts.push(part);
+      yield* extend(remaining - part, part);
+      parts.pop();
+    }
+  }
+
+  yield* extend(n, n);
+}
+
+// n! / (n - k)!
+const countPermutations = (n: number, k: number = n): bigint => {
+  if (k < 0 || k > n) return BigInt(0);
+  let count = BigInt(1);
+  for (let i = n - k + 1; i <= n; i++) count *= BigInt(i);
+  return count;
+};
+
+const countCombinations = (n: number, k: number): bigint => {
+  if (k < 0 || k > n) return BigInt(0);
+  k = Math.min(k, n - k);
+  let count = BigInt(1);
+  // Each intermediate product is itself a binomial coefficient, so the division is exact
+  for (let i = 1; i <= k; i++) {
+    count = (count * BigInt(n - k + i)) / BigInt(i);
+  }
+  return count;
+};
+
+const countMulticombinations = (n: number, k: number): bigint =>
+  n === 0 ? BigInt(k === 0 ? 1 : 0) : countCombinations(n + k - 1, k);
+
+// (sum of counts)! / product of count!
+const countMultisetPermutations = (counts: number[]): bigint => {
+  let total = 0;
+  let count = BigInt(1);
+  for (const c of counts) {
+    for (let i = 1; i <= c; i++) {
+      total++;
+      count = (count * BigInt(total)) / BigInt(i);
+    }
+  }
+  return count;
+};
+
+const toRank = (index: number | bigint): bigint => {
+  if (typeof index === 'number' && !Number.isInteger(index)) {
+    throw new ListRangeError(`Rank must be an integer, got ${index}`);
+  }
+  return BigInt(index);
+};
+
+// The k-permutation at position `index` of `permutationIndices(n, k)`
+const permutationAt = (n: number, k: number, index: number | bigint): number[] => {
+  let rank = toRank(index);
+  const total = countPermutations(n, k);
+  if (rank < BigInt(0)) rank += total;
+  if (rank < BigInt(0) || rank >= total) {
+    throw new ListRangeError(
+      `Permutation index ${index} is out of bounds for ${total} permutations`
+    );
+  }
+
+  const available = Array.from({ length: n }, (_, i) => i);
+  const result: number[] = [];
+  for (let position = 0; position < k; position++) {
+    // Permutations sharing the first `position + 1` choices
+    const block = countPermutations(n - position - 1, k - position - 1);
+    const choice = Number(rank / block);
+    rank %= block;
+    result.push(available.splice(choice, 1)[0]);
+  }
+  return result;
+};
+
+// Inverse of `permutationAt`: the position of a k-permutation of distinct indices below n
+const permutationRank = (n: number, indices: number[]): bigint => {
+  const k = indices.length;
+  const available = Array.from({ length: n }, (_, i) => i);
+  let rank = BigInt(0);
+  indices.forEach((index, position) => {
+    const choice = available.indexOf(index);
+    available.splice(choice, 1);
+    rank += BigInt(choice) * countPermutations(n - position - 1, k - position - 1);
+  });
+  return rank;
+};
+
+// The combination at position `index` of `combinationIndices(n, k)`
+const combinationAt = (n: number, k: number, index: number | bigint): number[] => {
+  let rank = toRank(index);
+  const total = countCombinations(n, k);
+  if (rank < BigInt(0)) rank += total;
+  if (rank < BigInt(0) || rank >= total) {
+    throw new ListRangeError(
+      `Combination index ${index} is out of bounds for ${total} combinations`
+    );
+  }
+
+  const result: number[] = [];
+  let next = 0;
+  for (let position = 0; position < k; position++) {
+    // Skip every block of combinations starting with a smaller index
+    while (true) {
+      const block = countCombinations(n - next - 1, k - position - 1);
+      if (rank < block) break;
+      rank -= block;
+      next++;
+    }
+    result.push(next++);
+  }
+  return result;
+};
+
+export {
+  combinationAt,
+  combinationIndices,
+  countCombinations,
+  countMulticombinations,
+  countMultisetPermutations,
+  countPermutations,
+  integerPartitions,
+  multicombinationIndices,
+  multisetPermutationIndices,
+  permutationAt,
+  permutationIndices,
+  permutationRank,
+  powerSetIndices,
+  productIndices,
+  setPartitionBlocks,
+};
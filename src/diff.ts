@@ -0,0 +1,329 @@
+import { ListArgumentError, ListRangeError } from './errors';
+
+type DiffOpType = 'keep' | 'delete' | 'insert';
+
+// A run of consecutive edits. `oldIndex`/`newIndex` are where the run starts in the old and
+// new sequence; for an insert `oldIndex` is the insertion point, for a delete `newIndex` is.
+type DiffOp<T> = {
+  type: DiffOpType;
+  oldIndex: number;
+  newIndex: number;
+  items: T[];
+};
+
+type Patch<T> = DiffOp<T>[];
+
+type DiffOptions<T> = {
+  equals?: (a: T, b: T) => boolean;
+};
+
+type EditDistanceOptions<T> = DiffOptions<T> & {
+  // Count swapping two adjacent elements as one edit (optimal string alignment)
+  transpositions?: boolean;
+};
+
+type CommonSubstring = {
+  index: number;
+  otherIndex: number;
+  length: number;
+};
+
+// The point where a forward and a backward search for a shortest edit script of
+// a[aLo, aHi) and b[bLo, bHi) meet, or undefined when the ranges have nothing in common
+const middleSplit = <T>(
+  a: readonly T[],
+  b: readonly T[],
+  equals: (a: T, b: T) => boolean,
+  aLo: number,
+  aHi: number,
+  bLo: number,
+  bHi: number
+): [number, number] | undefined => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  // With an odd delta the searches meet while extending forwards, otherwise backwards
+  const front = (delta & 1) === 1;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  // Furthest x per diagonal reached from the start (forward) and from the end (backward),
+  // -1 where a diagonal hasn't been reached
+  const forward = new Int32Array(2 * maxD + 3).fill(-1);
+  const backward = new Int32Array(2 * maxD + 3).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  // Diagonals that ran off the grid are skipped in later rounds
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[aLo + x], b[bLo + y])) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) forwardEnd += 2;
+      else if (y > m) forwardStart += 2;
+      else if (front && Math.abs(delta - k) <= maxD) {
+        // How far the backward search got on the same diagonal
+        const reached = backward[offset + delta - k];
+        if (reached !== -1 && x >= n - reached) return [x, y];
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      let x =
+        k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+          ? backward[offset + k + 1]
+          : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && equals(a[aHi - 1 - x], b[bHi - 1 - y])) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) backwardEnd += 2;
+      else if (y > m) backwardStart += 2;
+      else if (!front && Math.abs(delta - k) <= maxD) {
+        const reached = forward[offset + delta - k];
+        if (reached !== -1 && reached >= n - x) return [reached, reached - (delta - k)];
+      }
+    }
+  }
+  return undefined;
+};
+
+// Elementary edits of a shortest edit script, in order. Myers' linear space variant: the
+// search splits the ranges where its forward and backward halves meet and recurses on both
+// sides, so memory stays O(N + M) at O((N + M)D) time.
+const shortestEdit = <T>(
+  a: readonly T[],
+  b: readonly T[],
+  equals: (a: T, b: T) => boolean
+): DiffOpType[] => {
+  const edits: DiffOpType[] = [];
+  const repeat = (type: DiffOpType, count: number) => {
+    for (let i = 0; i < count; i++) edits.push(type);
+  };
+
+  const compare = (aLo: number, aHi: number, bLo: number, bHi: number): void => {
+    // Common prefixes and suffixes are kept as-is and don't need the search
+    let start = 0;
+    while (aLo + start < aHi && bLo + start < bHi && equals(a[aLo + start], b[bLo + start])) {
+      start++;
+    }
+    let end = 0;
+    while (
+      aHi - end > aLo + start &&
+      bHi - end > bLo + start &&
+      equals(a[aHi - end - 1], b[bHi - end - 1])
+    ) {
+      end++;
+    }
+    repeat('keep', start);
+    aLo += start;
+    bLo += start;
+    aHi -= end;
+    bHi -= end;
+
+    const split =
+      aLo < aHi && bLo < bHi ? middleSplit(a, b, equals, aLo, aHi, bLo, bHi) : undefined;
+    if (split) {
+      compare(aLo, aLo + split[0], bLo, bLo + split[1]);
+      compare(aLo + split[0], aHi, bLo + split[1], bHi);
+    } else {
+      repeat('delete', aHi - aLo);
+      repeat('insert', bHi - bLo);
+    }
+    repeat('keep', end);
+  };
+
+  compare(0, a.length, 0, b.length);
+  return edits;
+};
+
+// Group edits into runs, with each changed region's deletions ahead of its insertions
+const diff = <T>(a: readonly T[], b: readonly T[], equals: (a: T, b: T) => boolean): Patch<T> => {
+  const patch: Patch<T> = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  // Where the current changed region starts, and what it removes and adds
+  let regionOld = 0;
+  let regionNew = 0;
+  let deleted: T[] = [];
+  let inserted: T[] = [];
+
+  const flush = () => {
+    if (deleted.length > 0) {
+      patch.push({ type: 'delete', oldIndex: regionOld, newIndex: regionNew, items: deleted });
+    }
+    if (inserted.length > 0) {
+      patch.push({
+        type: 'insert',
+        oldIndex: regionOld + deleted.length,
+        newIndex: regionNew,
+        items: inserted,
+      });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const type of shortestEdit(a, b, equals)) {
+    if (type === 'keep') {
+      flush();
+      const last = patch[patch.length - 1];
+      if (last?.type === 'keep') last.items.push(a[oldIndex]);
+      else patch.push({ type, oldIndex, newIndex, items: [a[oldIndex]] });
+      oldIndex++;
+      newIndex++;
+      continue;
+    }
+
+    if (deleted.length === 0 && inserted.length === 0) {
+      regionOld = oldIndex;
+      regionNew = newIndex;
+    }
+    if (type === 'delete') deleted.push(a[oldIndex++]);
+    else inserted.push(b[newIndex++]);
+  }
+  flush();
+  return patch;
+};
+
+// Old elements not covered by the patch are kept, so a patch may omit its 'keep' runs
+const applyPatch = <T>(
+  items: readonly T[],
+  patch: Patch<T>,
+  equals: (a: T, b: T) => boolean
+): T[] => {
+  const result: T[] = [];
+  let cursor = 0;
+
+  for (const op of patch) {
+    if (op.oldIndex < cursor) {
+      throw new ListArgumentError(
+        'Patch operations must be ordered by oldIndex and must not overlap'
+      );
+    }
+    if (op.oldIndex > items.length) {
+      throw new ListRangeError(`Patch does not apply: index ${op.oldIndex} is out of bounds`);
+    }
+    result.push(...items.slice(cursor, op.oldIndex));
+    cursor = op.oldIndex;
+
+    if (op.type === 'insert') {
+      result.push(...op.items);
+      continue;
+    }
+
+    op.items.forEach((item, i) => {
+      if (cursor + i >= items.length || !equals(items[cursor + i], item)) {
+        throw new ListArgumentError(
+          `Patch does not apply: unexpected element at index ${cursor + i}`
+        );
+      }
+    });
+    if (op.type === 'keep') result.push(...items.slice(cursor, cursor + op.items.length));
+    cursor += op.items.length;
+  }
+
+  result.push(...items.slice(cursor));
+  return result;
+};
+
+// A patch that turns the new sequence back into the old one
+const invertPatch = <T>(patch: Patch<T>): Patch<T> =>
+  patch.map((op) => ({
+    type: op.type === 'keep' ? 'keep' : op.type === 'insert' ? 'delete' : 'insert',
+    oldIndex: op.newIndex,
+    newIndex: op.oldIndex,
+    items: op.items.slice(),
+  }));
+
+const longestCommonSubsequence = <T>(
+  a: readonly T[],
+  b: readonly T[],
+  equals: (a: T, b: T) => boolean
+): T[] => {
+  const result: T[] = [];
+  shortestEdit(a, b, equals).reduce((oldIndex, type) => {
+    if (type === 'keep') result.push(a[oldIndex]);
+    return type === 'insert' ? oldIndex : oldIndex + 1;
+  }, 0);
+  return result;
+};
+
+// Longest contiguous run present in both sequences, the earliest one in `a` on ties
+const longestCommonSubstring = <T>(
+  a: readonly T[],
+  b: readonly T[],
+  equals: (a: T, b: T) => boolean
+): CommonSubstring => {
+  let best: CommonSubstring = { index: 0, otherIndex: 0, length: 0 };
+  // Length of the common run ending at a[i - 1] and b[j - 1]
+  let previous = new Uint32Array(b.length + 1);
+  let current = new Uint32Array(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = equals(a[i - 1], b[j - 1]) ? previous[j - 1] + 1 : 0;
+      if (current[j] > best.length) {
+        best = { index: i - current[j], otherIndex: j - current[j], length: current[j] };
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+  return best;
+};
+
+const editDistance = <T>(
+  a: readonly T[],
+  b: readonly T[],
+  equals: (a: T, b: T) => boolean,
+  transpositions: boolean
+): number => {
+  // Three rolling rows of the Wagner-Fischer table
+  let beforePrevious = new Uint32Array(b.length + 1);
+  let previous = Uint32Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Uint32Array(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = equals(a[i - 1], b[j - 1]) ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (
+        transpositions &&
+        i > 1 &&
+        j > 1 &&
+        equals(a[i - 1], b[j - 2]) &&
+        equals(a[i - 2], b[j - 1])
+      ) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+    }
+    [beforePrevious, previous, current] = [previous, current, beforePrevious];
+  }
+  return previous[b.length];
+};
+
+export type { CommonSubstring, DiffOp, DiffOpType, DiffOptions, EditDistanceOptions, Patch };
+
+export {
+  applyPatch,
+  diff,
+  editDistance,
+  invertPatch,
+  longestCommonSubsequence,
+  longestCommonSubstring,
+};
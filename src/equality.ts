@@ -0,0 +1,221 @@
+import List from './List';
+
+// Equal values must produce equal hashes; unequal values may collide
+type Equality<T> = {
+  equals(a: T, b: T): boolean;
+  hash(value: T): number;
+};
+
+// 'identity' keeps the built-in SameValueZero semantics, 'deep' compares structurally
+type EqualityStrategy<T> = Equality<T> | 'identity' | 'deep';
+
+// Hashes stop descending past this depth so cyclic structures terminate
+const MAX_HASH_DEPTH = 8;
+
+const hashString = (value: string): number => {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+};
+
+const isSequence = (value: object): value is ArrayLike<unknown> =>
+  Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof DataView));
+
+const toSequence = (value: object): ArrayLike<unknown> | undefined => {
+  if (value instanceof List) return value.toArray();
+  return isSequence(value) ? value : undefined;
+};
+
+const deepHash = (value: unknown, depth: number = 0): number => {
+  if (value === null) return 1;
+  if (value === undefined) return 2;
+  if (typeof value === 'number') return Number.isNaN(value) ? 3 : hashString(`n:${value}`);
+  if (typeof value !== 'object') return hashString(`${typeof value}:${String(value)}`);
+  if (depth >= MAX_HASH_DEPTH) return 4;
+
+  if (value instanceof Date) return hashString(`d:${value.getTime()}`);
+  if (value instanceof RegExp) return hashString(`r:${String(value)}`);
+
+  const sequence = toSequence(value);
+  if (sequence) {
+    let hash = 5;
+    for (let i = 0; i < sequence.length; i++) {
+      hash = (Math.imul(hash, 31) + deepHash(sequence[i], depth + 1)) | 0;
+    }
+    return hash;
+  }
+
+  // Maps, Sets and objects are unordered, so their entry hashes are summed
+  let hash = 0;
+  if (value instanceof Map) {
+    value.forEach((v, k) => {
+      hash = (hash + (Math.imul(deepHash(k, depth + 1), 31) ^ deepHash(v, depth + 1))) | 0;
+    });
+    return hash ^ 6;
+  }
+  if (value instanceof Set) {
+    value.forEach((v) => {
+      hash = (hash + deepHash(v, depth + 1)) | 0;
+    });
+    return hash ^ 7;
+  }
+  for (const key of Object.keys(value)) {
+    const v = (value as Record<string, unknown>)[key];
+    hash = (hash + (Math.imul(hashString(key), 31) ^ deepHash(v, depth + 1))) | 0;
+  }
+  return hash ^ 8;
+};
+
+const deepEqual = (a: unknown, b: unknown, seen: Map<object, Set<object>> = new Map()): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return Number.isNaN(a) && Number.isNaN(b);
+  }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  // Assume equality for pairs already being compared higher up, which resolves cycles
+  const pairs = seen.get(a);
+  if (pairs?.has(b)) return true;
+  if (pairs) pairs.add(b);
+  else seen.set(a, new Set([b]));
+
+  const equal = deepEqualObjects(a, b, seen);
+  // Forget a failed pair so later lookups (e.g. scanning a Set) don't treat it as equal
+  if (!equal) seen.get(a)!.delete(b);
+  return equal;
+};
+
+const deepEqualObjects = (a: object, b: object, seen: Map<object, Set<object>>): boolean => {
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+  if (a instanceof RegExp) return String(a) === String(b);
+
+  const sequenceA = toSequence(a);
+  if (sequenceA) {
+    const sequenceB = toSequence(b)!;
+    if (sequenceA.length !== sequenceB.length) return false;
+    for (let i = 0; i < sequenceA.length; i++) {
+      if (!deepEqual(sequenceA[i], sequenceB[i], seen)) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Map) {
+    const mapB = b as Map<unknown, unknown>;
+    if (a.size !== mapB.size) return false;
+    for (const [key, value] of a) {
+      if (mapB.has(key)) {
+        if (!deepEqual(value, mapB.get(key), seen)) return false;
+        continue;
+      }
+      let found = false;
+      for (const [keyB, valueB] of mapB) {
+        if (deepEqual(key, keyB, seen) && deepEqual(value, valueB, seen)) {
+          found = true;
+          break;
+        }
+      }
+      if (!found) return false;
+    }
+    return true;
+  }
+
+  if (a instanceof Set) {
+    const setB = b as Set<unknown>;
+    if (a.size !== setB.size) return false;
+    for (const value of a) {
+      if (setB.has(value)) continue;
+      let found = false;
+      for (const valueB of setB) {
+        if (deepEqual(value, valueB, seen)) {
+          found = true;
+          break;
+        }
+      }
+      if (!found) return false;
+    }
+    return true;
+  }
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  for (const key of keysA) {
+    if (!Object.prototype.hasOwnProperty.call(b, key)) return false;
+    if (
+      !deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], seen)
+    ) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const deepEquality: Equality<unknown> = {
+  equals: (a, b) => deepEqual(a, b),
+  hash: (value) => deepHash(value),
+};
+
+// `undefined` means the built-in SameValueZero semantics of Map and Set
+const resolveEquality = <T>(strategy?: EqualityStrategy<T>): Equality<T> | undefined => {
+  if (strategy === undefined || strategy === 'identity') return undefined;
+  return strategy === 'deep' ? deepEquality : strategy;
+};
+
+const sameValueZero = (a: unknown, b: unknown): boolean =>
+  a === b || (Number.isNaN(a) && Number.isNaN(b));
+
+// A Map whose keys are compared with a custom equality; falls back to a plain Map
+class HashMap<K, V> {
+  private readonly equality?: Equality<K>;
+  private readonly native = new Map<K, V>();
+  private readonly buckets = new Map<number, [K, V][]>();
+  private readonly entries: [K, V][] = [];
+
+  constructor(equality?: Equality<K>) {
+    this.equality = equality;
+  }
+
+  private entry(key: K): [K, V] | undefined {
+    return this.buckets.get(this.equality!.hash(key))?.find(([k]) => this.equality!.equals(k, key));
+  }
+
+  has(key: K): boolean {
+    return this.equality ? this.entry(key) !== undefined : this.native.has(key);
+  }
+
+  get(key: K): V | undefined {
+    return this.equality ? this.entry(key)?.[1] : this.native.get(key);
+  }
+
+  set(key: K, value: V): this {
+    if (!this.equality) {
+      this.native.set(key, value);
+      return this;
+    }
+    const hash = this.equality.hash(key);
+    const bucket = this.buckets.get(hash);
+    const existing = bucket?.find(([k]) => this.equality!.equals(k, key));
+    if (existing) {
+      existing[1] = value;
+      return this;
+    }
+    const entry: [K, V] = [key, value];
+    if (bucket) bucket.push(entry);
+    else this.buckets.set(hash, [entry]);
+    this.entries.push(entry);
+    return this;
+  }
+
+  // Convert to a plain Map keyed by the first key seen for each group
+  toMap(): Map<K, V> {
+    return this.equality ? new Map(this.entries) : this.native;
+  }
+}
+
+export type { Equality, EqualityStrategy };
+
+export { HashMap, deepEqual, deepEquality, deepHash, hashString, resolveEquality, sameValueZero };
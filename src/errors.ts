@@ -0,0 +1,70 @@
+// Base class of every error thrown for invalid use of a List
+class ListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListError';
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// An index or position outside the list
+class ListRangeError extends ListError {
+  name = 'ListRangeError';
+}
+
+// Elements of the wrong type for the operation, e.g. summing non-numbers
+class ListTypeError extends ListError {
+  name = 'ListTypeError';
+}
+
+// An invalid argument, e.g. a chunk size of 0
+class ListArgumentError extends ListError {
+  name = 'ListArgumentError';
+}
+
+// Thrown by async helpers in `collect` error mode once every callback has settled
+class ListAggregateError extends ListError {
+  name = 'ListAggregateError';
+  readonly errors: unknown[];
+
+  constructor(errors: unknown[], message: string = `${errors.length} callback(s) failed`) {
+    super(message);
+    this.errors = errors;
+  }
+}
+
+// Lenient checks reject only arguments that would never terminate; strict checks
+// also reject the ones that are quietly padded, clamped or ignored.
+
+const assertSize = (name: string, value: number, strict: boolean): void => {
+  if (strict ? !Number.isInteger(value) || value < 1 : !(value > 0)) {
+    throw new ListArgumentError(
+      `${name} must be a positive ${strict ? 'integer' : 'number'}, got ${value}`
+    );
+  }
+};
+
+// `inclusiveEnd` allows `index === length`, e.g. for inserting at the end
+const assertIndex = (index: number, length: number, inclusiveEnd: boolean = false): void => {
+  const end = inclusiveEnd ? length : length - 1;
+  if (!Number.isInteger(index) || index < -length || index > end) {
+    throw new ListRangeError(`Index ${index} is out of bounds for length ${length}`);
+  }
+};
+
+const assertNumeric = (name: string, items: readonly unknown[]): void => {
+  if (!items.every((item) => typeof item === 'number')) {
+    throw new ListTypeError(`${name} is only applicable for numeric lists`);
+  }
+};
+
+export {
+  ListAggregateError,
+  ListArgumentError,
+  ListError,
+  ListRangeError,
+  ListTypeError,
+  assertIndex,
+  assertNumeric,
+  assertSize,
+};
@@ -0,0 +1,155 @@
+import { sameValueZero } from './equality';
+import { ListArgumentError } from './errors';
+
+type HistoryOptions = {
+  // Maximum number of undo steps kept (default: 100)
+  limit?: number;
+};
+
+// One recorded edit, holding only what is needed to undo and redo it
+type ListEdit<T> =
+  // `removed` was replaced by `inserted` at `index`
+  | { type: 'splice'; index: number; removed: T[]; inserted: T[] }
+  // `count` elements moved from index `from` so they now start at `to`
+  | { type: 'move'; from: number; to: number; count: number }
+  // The element now at position i was at position `order[i]` before
+  | { type: 'reorder'; order: Uint32Array };
+
+// Each step holds the edits of one operation (or one `batch`)
+type History<T> = {
+  undo: ListEdit<T>[][];
+  redo: ListEdit<T>[][];
+  limit: number;
+  // Edits of the open batch
+  group?: ListEdit<T>[];
+  // Set while edits are replayed or rolled back, so they aren't recorded again
+  suspended: boolean;
+};
+
+const historyLimit = (options: HistoryOptions): number => {
+  const { limit = 100 } = options;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ListArgumentError('History limit must be a positive integer');
+  }
+  return limit;
+};
+
+const createHistory = <T>(options: HistoryOptions): History<T> => ({
+  undo: [],
+  redo: [],
+  limit: historyLimit(options),
+  suspended: false,
+});
+
+const trimHistory = <T>(history: History<T>): void => {
+  const { undo, limit } = history;
+  if (undo.length > limit) undo.splice(0, undo.length - limit);
+};
+
+const pushStep = <T>(history: History<T>, edits: ListEdit<T>[]): void => {
+  history.undo.push(edits);
+  history.redo = [];
+  trimHistory(history);
+};
+
+const recordEdit = <T>(history: History<T>, edit: ListEdit<T>): void => {
+  if (history.suspended) return;
+  if (history.group) history.group.push(edit);
+  else pushStep(history, [edit]);
+};
+
+const invertEdit = <T>(edit: ListEdit<T>): ListEdit<T> => {
+  switch (edit.type) {
+    case 'splice':
+      return { type: 'splice', index: edit.index, removed: edit.inserted, inserted: edit.removed };
+    case 'move':
+      return { type: 'move', from: edit.to, to: edit.from, count: edit.count };
+    default: {
+      const order = new Uint32Array(edit.order.length);
+      edit.order.forEach((from, i) => {
+        order[from] = i;
+      });
+      return { type: 'reorder', order };
+    }
+  }
+};
+
+const applyEdit = <T>(items: T[], edit: ListEdit<T>): void => {
+  switch (edit.type) {
+    case 'splice':
+      items.splice(edit.index, edit.removed.length, ...edit.inserted);
+      return;
+    case 'move':
+      items.splice(edit.to, 0, ...items.splice(edit.from, edit.count));
+      return;
+    default: {
+      const before = items.slice();
+      edit.order.forEach((from, i) => {
+        items[i] = before[from];
+      });
+    }
+  }
+};
+
+// The permutation that turned `before` into `after`; equal elements keep their relative order
+const reorderOf = <T>(before: readonly T[], after: readonly T[]): Uint32Array => {
+  // Index loops rather than forEach, so holes count as undefined elements
+  const positions = new Map<T, number[]>();
+  for (let i = 0; i < before.length; i++) {
+    const queue = positions.get(before[i]);
+    if (queue) queue.push(i);
+    else positions.set(before[i], [i]);
+  }
+
+  const order = new Uint32Array(after.length);
+  const next = new Map<T, number>();
+  for (let i = 0; i < after.length; i++) {
+    const taken = next.get(after[i]) ?? 0;
+    order[i] = positions.get(after[i])![taken];
+    next.set(after[i], taken + 1);
+  }
+  return order;
+};
+
+// The single splice that turns `before` into `after`, or undefined if they are equal
+const spliceBetween = <T>(
+  before: readonly T[],
+  after: readonly T[]
+): Extract<ListEdit<T>, { type: 'splice' }> | undefined => {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    sameValueZero(before[start], after[start])
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    sameValueZero(before[before.length - 1 - end], after[after.length - 1 - end])
+  ) {
+    end++;
+  }
+  if (start === before.length && start === after.length) return undefined;
+  return {
+    type: 'splice',
+    index: start,
+    removed: before.slice(start, before.length - end),
+    inserted: after.slice(start, after.length - end),
+  };
+};
+
+export type { History, HistoryOptions, ListEdit };
+export {
+  applyEdit,
+  createHistory,
+  historyLimit,
+  invertEdit,
+  pushStep,
+  recordEdit,
+  reorderOf,
+  spliceBetween,
+  trimHistory,
+};
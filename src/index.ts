@@ -1 +1,89 @@
 export { default as List } from './List';
+export { default as LazyList } from './LazyList';
+export { default as ImmutableList } from './ImmutableList';
+export { default as GroupedList } from './GroupedList';
+export { default as IndexableList } from './IndexableList';
+export { default as Matrix } from './Matrix';
+export { default as ObservableList } from './ObservableList';
+export { default as SortedList } from './SortedList';
+export {
+  collect,
+  count,
+  countDistinct,
+  first,
+  last,
+  max,
+  mean,
+  median,
+  min,
+  sum,
+} from './aggregate';
+export { deepEqual, deepEquality, deepHash } from './equality';
+export {
+  ListAggregateError,
+  ListArgumentError,
+  ListError,
+  ListRangeError,
+  ListTypeError,
+} from './errors';
+export { mulberry32, xoshiro128 } from './random';
+export type {
+  Aggregator,
+  AggregatorResults,
+  AsyncOptions,
+  Bin,
+  BinNormalization,
+  BinOptions,
+  BinRule,
+  CategoryBin,
+  CategoryBinOptions,
+  CommonSubstring,
+  CsvColumnType,
+  CsvParseOptions,
+  CsvWriteOptions,
+  DeepFlattened,
+  Description,
+  DiffOp,
+  DiffOpType,
+  DiffOptions,
+  EachCallback,
+  EachContext,
+  EachGuard,
+  EachOptions,
+  EditDistanceOptions,
+  Equality,
+  EqualityStrategy,
+  Field,
+  Flattened,
+  HistoryOptions,
+  JSONReviver,
+  ListEdit,
+  ListSnapshot,
+  ParseOptions,
+  Patch,
+  QuantileMethod,
+  QuantileOptions,
+  RandomOptions,
+  RandomSource,
+  SampleOptions,
+  SerializeOptions,
+  SetMatcher,
+  SetOptions,
+  SortDirection,
+  SortKey,
+  SortKeyOptions,
+  SortMethod,
+  StatsAccessor,
+  StreamBatchOptions,
+  StreamFormat,
+  StreamWriteOptions,
+  TypedArrayType,
+  Unwrapped,
+  Unzipped,
+  VarianceOptions,
+  Vector,
+  WindowOptions,
+  ZipSources,
+} from './List';
+export type { ChangeListener, ListChange } from './ObservableList';
+export type { AggregateRow } from './GroupedList';
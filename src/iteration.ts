@@ -0,0 +1,152 @@
+import type List from './List';
+import type { EachCallback, EachContext, EachOptions } from './List';
+import { ListArgumentError, assertIndex, assertSize } from './errors';
+
+type LoopSignalType = 'break' | 'continue' | 'stop';
+
+// Thrown by the context's control functions to leave the current callback. `loop` ties it to
+// the iteration that created it, so a nested iteration doesn't intercept it.
+class LoopSignal {
+  readonly loop: object;
+  readonly type: LoopSignalType;
+  readonly value: unknown;
+
+  constructor(loop: object, type: LoopSignalType, value?: unknown) {
+    this.loop = loop;
+    this.type = type;
+    this.value = value;
+  }
+}
+
+const abortReason = (signal: AbortSignal): unknown =>
+  signal.reason ?? new Error('The operation was aborted');
+
+// The context's control functions, shared by every callback of one iteration. The object
+// itself is the `loop` its signals belong to.
+type LoopControls = Pick<EachContext<unknown>, 'breakFn' | 'continueFn' | 'stop'>;
+
+const createLoop = (): LoopControls => {
+  const loop = {} as LoopControls;
+  const control =
+    (type: LoopSignalType) =>
+    (value?: unknown): never => {
+      throw new LoopSignal(loop, type, value);
+    };
+  loop.breakFn = control('break');
+  loop.continueFn = control('continue');
+  loop.stop = control('stop');
+  return loop;
+};
+
+// The visited indices: `count` of them, starting at `first`, `step` apart (negative in reverse)
+type IterationBounds = { first: number; step: number; count: number };
+
+const iterationBounds = (
+  options: EachOptions,
+  length: number,
+  strict: boolean
+): IterationBounds => {
+  const { reverse = false, step = 1, start = 0, end = length } = options;
+  assertSize('Step', step, strict);
+  if (strict) {
+    assertIndex(start, length, true);
+    assertIndex(end, length, true);
+    if (
+      options.window !== undefined &&
+      !(Number.isInteger(options.window) && options.window >= 0)
+    ) {
+      throw new ListArgumentError(`Window must be a non-negative integer, got ${options.window}`);
+    }
+  }
+
+  const clamp = (i: number) => (i < 0 ? Math.max(length + i, 0) : Math.min(i, length));
+  const from = clamp(start);
+  const to = clamp(end);
+  if (to <= from) return { first: from, step, count: 0 };
+  return reverse
+    ? { first: to - 1, step: -step, count: Math.floor((to - 1 - from) / step) + 1 }
+    : { first: from, step, count: Math.ceil((to - from) / step) };
+};
+
+// Reads the visited element at a position of the visited sequence (not a list index)
+type PositionReader<T> = (position: number) => T;
+
+// `list` is only called when the callback reads `context.list`
+const createContext = <T>(
+  bounds: IterationBounds,
+  position: number,
+  window: number,
+  loop: LoopControls,
+  valueAt: PositionReader<T>,
+  list: () => List<T>
+): EachContext<T> => {
+  const { first, step, count } = bounds;
+  const hasPrev = position > 0;
+  const hasNext = position < count - 1;
+  // Positions `from` (inclusive) to `to` (exclusive), within the visited ones
+  const neighbors = (from: number, to: number): T[] => {
+    const result: T[] = [];
+    for (let p = Math.max(from, 0); p < Math.min(to, count); p++) result.push(valueAt(p));
+    return result;
+  };
+  // Without a window nothing is collected unless read
+  const before = window > 0 ? neighbors(position - window, position) : undefined;
+  const after = window > 0 ? neighbors(position + 1, position + 1 + window) : undefined;
+
+  return {
+    prevIndex: hasPrev ? first + (position - 1) * step : undefined,
+    nextIndex: hasNext ? first + (position + 1) * step : undefined,
+    prev: hasPrev ? valueAt(position - 1) : undefined,
+    next: hasNext ? valueAt(position + 1) : undefined,
+    get before() {
+      return before ?? [];
+    },
+    get after() {
+      return after ?? [];
+    },
+    breakFn: loop.breakFn,
+    continueFn: loop.continueFn,
+    stop: loop.stop,
+    get list() {
+      return list();
+    },
+    isFirst: position === 0,
+    isLast: position === count - 1,
+  };
+};
+
+// Visit the selected elements, passing each callback result (or `stop` value) to `onResult`,
+// which may return 'stop' to end early. Returns the `stop` value, if any.
+const visit = <T, R>(
+  bounds: IterationBounds,
+  options: EachOptions,
+  valueAt: PositionReader<T>,
+  list: () => List<T>,
+  callback: EachCallback<T, R>,
+  onResult: (result: R, value: T, index: number) => 'stop' | void
+): unknown => {
+  const { signal, window = 0 } = options;
+  const loop = createLoop();
+
+  for (let position = 0; position < bounds.count; position++) {
+    if (signal?.aborted) throw abortReason(signal);
+    const index = bounds.first + position * bounds.step;
+    const value = valueAt(position);
+
+    let result: R;
+    try {
+      const context = createContext(bounds, position, window, loop, valueAt, list);
+      result = callback(value, index, context);
+    } catch (error) {
+      if (!(error instanceof LoopSignal) || error.loop !== loop) throw error;
+      if (error.type === 'continue') continue;
+      if (error.type === 'stop') onResult(error.value as R, value, index);
+      return error.value;
+    }
+    if (onResult(result, value, index) === 'stop') return undefined;
+  }
+  return undefined;
+};
+
+export type { IterationBounds, LoopControls, PositionReader };
+export { LoopSignal, abortReason, createContext, createLoop, iterationBounds, visit };
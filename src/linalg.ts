@@ -0,0 +1,190 @@
+import { ListArgumentError, ListTypeError } from './errors';
+import { kahanSum } from './stats';
+
+// A vector operand: another vector of the same length, or a scalar applied to every element
+type Operand = readonly number[] | number;
+
+const assertSameLength = (name: string, a: readonly number[], b: readonly number[]): void => {
+  if (a.length !== b.length) {
+    throw new ListArgumentError(
+      `${name} needs vectors of the same length, got ${a.length} and ${b.length}`
+    );
+  }
+};
+
+const elementWise = (
+  name: string,
+  values: readonly number[],
+  operand: Operand,
+  op: (a: number, b: number) => number
+): number[] => {
+  if (typeof operand === 'number') return values.map((value) => op(value, operand));
+  assertSameLength(name, values, operand);
+  return values.map((value, i) => op(value, operand[i]));
+};
+
+const dot = (a: readonly number[], b: readonly number[]): number => {
+  assertSameLength('Dot product', a, b);
+  return kahanSum(a.map((value, i) => value * b[i]));
+};
+
+// The p-norm for p >= 1: 1 is the Manhattan norm, 2 the Euclidean one and Infinity the maximum
+const norm = (values: readonly number[], p: number = 2): number => {
+  if (!(p >= 1)) throw new ListArgumentError(`Norm order must be at least 1, got ${p}`);
+  const magnitudes = values.map(Math.abs);
+  if (p === Infinity) return magnitudes.reduce((max, value) => Math.max(max, value), 0);
+  if (p === 1) return kahanSum(magnitudes);
+  // Scaling by the largest magnitude keeps the powers from overflowing or underflowing
+  const largest = magnitudes.reduce((max, value) => Math.max(max, value), 0);
+  if (largest === 0 || largest === Infinity) return largest;
+  return (
+    largest * Math.pow(kahanSum(magnitudes.map((value) => Math.pow(value / largest, p))), 1 / p)
+  );
+};
+
+// NaN when either vector is all zeros, as the angle is undefined
+const cosineSimilarity = (a: readonly number[], b: readonly number[]): number => {
+  assertSameLength('Cosine similarity', a, b);
+  return dot(a, b) / (norm(a) * norm(b));
+};
+
+const euclideanDistance = (a: readonly number[], b: readonly number[]): number => {
+  assertSameLength('Euclidean distance', a, b);
+  return norm(a.map((value, i) => value - b[i]));
+};
+
+// Matrices below are rectangular arrays of rows
+
+const assertMatrix = (rows: readonly (readonly unknown[])[]): void => {
+  const columns = rows.length === 0 ? 0 : rows[0].length;
+  for (const row of rows) {
+    if (row.length !== columns) {
+      throw new ListArgumentError('Matrix rows must all have the same length');
+    }
+    if (!row.every((value) => typeof value === 'number')) {
+      throw new ListTypeError('Matrix entries must be numbers');
+    }
+  }
+};
+
+const assertSquare = (name: string, rows: readonly number[][]): void => {
+  if (rows.some((row) => row.length !== rows.length)) {
+    throw new ListArgumentError(`${name} is only defined for square matrices`);
+  }
+};
+
+const identity = (n: number): number[][] =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+// `columns` is needed for matrices without rows
+const transpose = (rows: readonly number[][], columns: number): number[][] =>
+  Array.from({ length: columns }, (_, j) => rows.map((row) => row[j]));
+
+const multiply = (a: readonly number[][], b: readonly number[][], bColumns: number): number[][] => {
+  if (a.length > 0 && a[0].length !== b.length) {
+    throw new ListArgumentError(
+      `Cannot multiply a matrix with ${a[0].length} columns by one with ${b.length} rows`
+    );
+  }
+  const columns = transpose(b, bColumns);
+  return a.map((row) => columns.map((column) => dot(row, column)));
+};
+
+// Bareiss elimination: fraction-free, so integer matrices get exact integer determinants
+const bareissDeterminant = (m: number[][]): number => {
+  const n = m.length;
+  let sign = 1;
+  let previous = 1;
+  for (let k = 0; k < n - 1; k++) {
+    if (m[k][k] === 0) {
+      const swap = m.findIndex((row, i) => i > k && row[k] !== 0);
+      if (swap === -1) return 0;
+      [m[k], m[swap]] = [m[swap], m[k]];
+      sign = -sign;
+    }
+    for (let i = k + 1; i < n; i++) {
+      for (let j = k + 1; j < n; j++) {
+        m[i][j] = (m[i][j] * m[k][k] - m[i][k] * m[k][j]) / previous;
+      }
+    }
+    previous = m[k][k];
+  }
+  return n === 0 ? 1 : sign * m[n - 1][n - 1];
+};
+
+// LU decomposition with partial pivoting: the determinant is the product of the pivots.
+// Pivoting on the largest entry keeps rounding errors small for non-integer matrices.
+const luDeterminant = (m: number[][]): number => {
+  const n = m.length;
+  let determinant = 1;
+  for (let k = 0; k < n; k++) {
+    let pivot = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(m[i][k]) > Math.abs(m[pivot][k])) pivot = i;
+    }
+    if (m[pivot][k] === 0) return 0;
+    if (pivot !== k) {
+      [m[k], m[pivot]] = [m[pivot], m[k]];
+      determinant = -determinant;
+    }
+    determinant *= m[k][k];
+    for (let i = k + 1; i < n; i++) {
+      const factor = m[i][k] / m[k][k];
+      for (let j = k + 1; j < n; j++) m[i][j] -= factor * m[k][j];
+    }
+  }
+  return determinant;
+};
+
+const determinant = (rows: readonly number[][]): number => {
+  assertSquare('Determinant', rows);
+  const m = rows.map((row) => row.slice());
+  return rows.every((row) => row.every(Number.isInteger))
+    ? bareissDeterminant(m)
+    : luDeterminant(m);
+};
+
+// Gauss-Jordan elimination with partial pivoting
+const inverse = (rows: readonly number[][]): number[][] => {
+  assertSquare('Inverse', rows);
+  const n = rows.length;
+  const eye = identity(n);
+  const m = rows.map((row, i) => row.concat(eye[i]));
+  // Pivots this small relative to the entries are treated as zero
+  const tolerance =
+    n * Number.EPSILON * rows.reduce((max, row) => Math.max(max, norm(row, Infinity)), 0);
+
+  for (let k = 0; k < n; k++) {
+    let pivot = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(m[i][k]) > Math.abs(m[pivot][k])) pivot = i;
+    }
+    if (Math.abs(m[pivot][k]) <= tolerance) {
+      throw new ListArgumentError('Matrix is singular and has no inverse');
+    }
+    [m[k], m[pivot]] = [m[pivot], m[k]];
+
+    const scale = m[k][k];
+    m[k] = m[k].map((value) => value / scale);
+    for (let i = 0; i < n; i++) {
+      const factor = m[i][k];
+      if (i === k || factor === 0) continue;
+      m[i] = m[i].map((value, j) => value - factor * m[k][j]);
+    }
+  }
+  return m.map((row) => row.slice(n));
+};
+
+export {
+  assertMatrix,
+  cosineSimilarity,
+  determinant,
+  dot,
+  elementWise,
+  euclideanDistance,
+  identity,
+  inverse,
+  multiply,
+  norm,
+  transpose,
+};
@@ -0,0 +1,74 @@
+import { Readable, Transform } from 'stream';
+import type List from './List';
+import { createBatcher, createDecoder, createEncoder, createSeenFilter } from './streams';
+import type {
+  BatchPipeline,
+  ListTransformOptions,
+  StreamUniqueOptions,
+  StreamWriteOptions,
+} from './streams';
+
+// Node stream adapters. They are published as the `/node` entry point, so the main one has
+// no Node builtins and works in browsers; `List.fromStream` only needs async iteration and
+// stays on List, and `list.toStream` loads this module when called.
+
+// A Transform that runs `pipeline` on each batch of `batchSize` elements and writes out the
+// results, so memory stays bounded by the batch size whatever the stream length. Stateful
+// steps like `unique` therefore apply per batch, e.g. `(batch) => batch.filter(fn)`; the
+// `unique` option drops duplicates across batches, remembering a bounded number of keys.
+const createTransform = <T, U>(
+  pipeline: BatchPipeline<T, U>,
+  options: ListTransformOptions<U> = {}
+): Transform => {
+  const { batchSize = 1000, format = 'objects', output = 'objects', unique = false } = options;
+  const decoder = createDecoder(options);
+  const batcher = createBatcher<T>(batchSize);
+  const encode = createEncoder(options);
+  const isNew = unique ? createSeenFilter<U>(unique === true ? {} : unique) : () => true;
+
+  const run = async (stream: Transform, batches: List<T>[]): Promise<void> => {
+    for (const batch of batches) {
+      for (const item of await pipeline(batch)) {
+        if (isNew(item)) stream.push(encode(item));
+      }
+    }
+  };
+
+  return new Transform({
+    writableObjectMode: format === 'objects',
+    readableObjectMode: output === 'objects',
+    transform(chunk, _encoding, callback) {
+      let batches: List<T>[];
+      try {
+        batches = batcher.push(decoder.write(chunk));
+      } catch (error) {
+        return callback(error as Error);
+      }
+      run(this, batches).then(() => callback(), callback);
+    },
+    flush(callback) {
+      let batches: List<T>[];
+      try {
+        batches = batcher.push(decoder.end()).concat(batcher.flush());
+      } catch (error) {
+        return callback(error as Error);
+      }
+      run(this, batches).then(() => callback(), callback);
+    },
+  });
+};
+
+// A Readable producing the elements of `list` only as fast as the consumer reads them
+const toStream = <T>(list: List<T>, options: StreamWriteOptions = {}): Readable => {
+  const encode = createEncoder(options);
+  return Readable.from(
+    (function* () {
+      for (const item of list) yield encode(item);
+    })(),
+    { objectMode: (options.output ?? 'objects') === 'objects' }
+  );
+};
+
+export type { BatchPipeline, ListTransformOptions, StreamUniqueOptions, StreamWriteOptions };
+
+export { createTransform, toStream };
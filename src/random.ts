@@ -0,0 +1,198 @@
+import { hashString } from './equality';
+import { ListArgumentError, ListRangeError } from './errors';
+
+// A source of uniformly distributed floats in [0, 1), like `Math.random`
+type RandomSource = () => number;
+
+type RandomOptions = {
+  // Overrides the list's source from `useRandom` (default: Math.random)
+  random?: RandomSource;
+};
+
+type SampleOptions = RandomOptions & {
+  // Draw with replacement, so elements can be picked more than once
+  replace?: boolean;
+};
+
+// Strings are hashed, so any label works as a seed
+const toSeed = (seed: number | string): number =>
+  typeof seed === 'string' ? hashString(seed) : seed | 0;
+
+// Small and fast 32-bit PRNG; fine for shuffling and sampling, not for cryptography
+const mulberry32 = (seed: number | string): RandomSource => {
+  let state = toSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const rotl = (x: number, k: number): number => (x << k) | (x >>> (32 - k));
+
+// xoshiro128**, with a longer period than mulberry32; the state is seeded through splitmix32
+const xoshiro128 = (seed: number | string): RandomSource => {
+  let s = toSeed(seed);
+  const splitmix = () => {
+    s = (s + 0x9e3779b9) | 0;
+    let z = s;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+  let a = splitmix();
+  let b = splitmix();
+  let c = splitmix();
+  let d = splitmix();
+
+  return () => {
+    const result = Math.imul(rotl(Math.imul(b, 5), 7), 9) >>> 0;
+    const t = b << 9;
+    c ^= a;
+    d ^= b;
+    b ^= c;
+    a ^= d;
+    c ^= t;
+    d = rotl(d, 11);
+    return result / 4294967296;
+  };
+};
+
+// Integer in [0, n)
+const randomIndex = (random: RandomSource, n: number): number => Math.floor(random() * n);
+
+// Fisher-Yates; stopping after `count` swaps leaves a uniform sample in the first `count` slots
+const shuffleInPlace = <T>(items: T[], random: RandomSource, count: number = items.length): T[] => {
+  const n = items.length;
+  for (let i = 0; i < Math.min(count, n - 1); i++) {
+    const j = i + randomIndex(random, n - i);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+// Sample sizes are floored and clamped to what can be drawn, while strict mode rejects sizes
+// that would be adjusted. Sizes that can't be drawn at all (NaN, or unbounded with
+// replacement) always throw.
+const sampleSize = (k: number, available: number, replace: boolean, strict: boolean): number => {
+  if (Number.isNaN(k) || (replace && k === Infinity)) {
+    throw new ListArgumentError(`Sample size must be a finite number, got ${k}`);
+  }
+  if (strict) {
+    if (!Number.isInteger(k) || k < 0) {
+      throw new ListArgumentError(`Sample size must be a non-negative integer, got ${k}`);
+    }
+    if (!replace && k > available) {
+      throw new ListRangeError(`Cannot sample ${k} of ${available} without replacement`);
+    }
+  }
+  const size = Math.max(0, Math.floor(k));
+  return replace ? size : Math.min(size, available);
+};
+
+// `k` is a size from `sampleSize`
+const sample = <T>(items: readonly T[], k: number, replace: boolean, random: RandomSource): T[] => {
+  if (replace) {
+    if (items.length === 0) return [];
+    return Array.from({ length: k }, () => items[randomIndex(random, items.length)]);
+  }
+  return shuffleInPlace(items.slice(), random, k).slice(0, k);
+};
+
+const validWeights = (weights: number[]): number[] => {
+  for (const weight of weights) {
+    if (!(weight >= 0) || weight === Infinity) {
+      throw new ListArgumentError(`Weights must be finite and non-negative, got ${weight}`);
+    }
+  }
+  return weights;
+};
+
+// Index of the first cumulative weight above `target`
+const searchCumulative = (cumulative: number[], target: number): number => {
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (cumulative[mid] > target) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
+
+// Indices drawn in proportion to their weights; none when every weight is zero
+const weightedIndices = (
+  weights: number[],
+  k: number,
+  replace: boolean,
+  random: RandomSource
+): number[] => {
+  validWeights(weights);
+
+  if (replace) {
+    const cumulative: number[] = [];
+    let total = 0;
+    for (const weight of weights) cumulative.push((total += weight));
+    if (total === 0) return [];
+    return Array.from({ length: k }, () => searchCumulative(cumulative, random() * total));
+  }
+
+  // Efraimidis-Spirakis: the k largest keys u^(1/w) form a weighted sample without replacement
+  const keyed: [number, number][] = [];
+  weights.forEach((weight, index) => {
+    if (weight > 0) keyed.push([Math.pow(random(), 1 / weight), index]);
+  });
+  keyed.sort((a, b) => b[0] - a[0]);
+  return keyed.slice(0, k).map(([, index]) => index);
+};
+
+// Algorithm R: a uniform sample of k elements from a stream of unknown length, in one pass
+const reservoirSample = <T>(items: Iterable<T>, k: number, random: RandomSource): T[] => {
+  const reservoir: T[] = [];
+  let seen = 0;
+  for (const item of items) {
+    if (reservoir.length < k) {
+      reservoir.push(item);
+    } else {
+      const j = randomIndex(random, seen + 1);
+      if (j < k) reservoir[j] = item;
+    }
+    seen++;
+  }
+  return reservoir;
+};
+
+// Split sizes proportional to `weights` that add up to n, rounding by largest remainder
+const splitSizes = (n: number, weights: number[]): number[] => {
+  const total = validWeights(weights).reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0 || total === 0) {
+    throw new ListArgumentError('Split weights must include a positive weight');
+  }
+
+  const exact = weights.map((weight) => (weight / total) * n);
+  const sizes = exact.map(Math.floor);
+  let remaining = n - sizes.reduce((sum, size) => sum + size, 0);
+  const byRemainder = exact
+    .map((value, index) => [value - sizes[index], index])
+    .sort((a, b) => b[0] - a[0]);
+  for (const [, index] of byRemainder) {
+    if (remaining-- <= 0) break;
+    sizes[index]++;
+  }
+  return sizes;
+};
+
+export type { RandomOptions, RandomSource, SampleOptions };
+
+export {
+  mulberry32,
+  randomIndex,
+  reservoirSample,
+  sample,
+  sampleSize,
+  shuffleInPlace,
+  splitSizes,
+  weightedIndices,
+  xoshiro128,
+};
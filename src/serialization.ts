@@ -0,0 +1,402 @@
+import List from './List';
+import { ListTypeError } from './errors';
+
+type JSONReviver = (key: string, value: unknown) => unknown;
+
+type SerializeOptions = {
+  // Tag Lists, Dates, Maps, Sets and BigInts so `List.fromJSON` restores their types
+  tagged?: boolean;
+  space?: string | number;
+};
+
+type ParseOptions = {
+  // Revive the tags written by `serialize({ tagged: true })` and `toNDJSON({ tagged: true })`
+  tagged?: boolean;
+  reviver?: JSONReviver;
+};
+
+type CsvColumnType = 'string' | 'number' | 'boolean' | 'date' | ((raw: string) => unknown);
+
+type CsvOptions = {
+  delimiter?: string;
+  // First row holds column names; rows become objects instead of arrays (default: true)
+  header?: boolean;
+};
+
+type CsvWriteOptions = CsvOptions & {
+  // Column order for object rows (default: keys in order of first appearance)
+  columns?: string[];
+  newline?: '\n' | '\r\n';
+  // Quote every field, not just those that need it
+  quoteAll?: boolean;
+};
+
+type CsvParseOptions = CsvOptions & {
+  // Per-column parsers, keyed by header name (or index without a header)
+  types?: Record<string, CsvColumnType>;
+  // Infer numbers, booleans and empty values for columns without an explicit type
+  dynamicTyping?: boolean;
+  skipEmptyLines?: boolean;
+};
+
+const TYPE_KEY = '$type';
+
+// Replace values JSON can't represent with `{ $type, value }` tags. Plain objects with a
+// `$type` key of their own are tagged too, as entries, so they can't be mistaken for tags.
+const encodeTagged = (value: unknown, stack: Set<object> = new Set()): unknown => {
+  if (typeof value === 'bigint') return { [TYPE_KEY]: 'BigInt', value: value.toString() };
+  if (typeof value !== 'object' || value === null) return value;
+  if (value instanceof Date) return { [TYPE_KEY]: 'Date', value: value.toISOString() };
+
+  if (stack.has(value)) {
+    throw new ListTypeError('Converting circular structure to JSON');
+  }
+  stack.add(value);
+
+  let encoded: unknown;
+  if (value instanceof List) {
+    encoded = {
+      [TYPE_KEY]: 'List',
+      value: value.toArray().map((item) => encodeTagged(item, stack)),
+    };
+  } else if (value instanceof Map) {
+    encoded = {
+      [TYPE_KEY]: 'Map',
+      value: Array.from(value, ([k, v]) => [encodeTagged(k, stack), encodeTagged(v, stack)]),
+    };
+  } else if (value instanceof Set) {
+    encoded = { [TYPE_KEY]: 'Set', value: Array.from(value, (item) => encodeTagged(item, stack)) };
+  } else if (Array.isArray(value)) {
+    encoded = value.map((item) => encodeTagged(item, stack));
+  } else if (Object.prototype.hasOwnProperty.call(value, TYPE_KEY)) {
+    encoded = {
+      [TYPE_KEY]: 'Object',
+      value: Object.keys(value).map((key) => [
+        key,
+        encodeTagged((value as Record<string, unknown>)[key], stack),
+      ]),
+    };
+  } else {
+    const object: Record<string, unknown> = {};
+    for (const key of Object.keys(value)) {
+      object[key] = encodeTagged((value as Record<string, unknown>)[key], stack);
+    }
+    encoded = object;
+  }
+
+  stack.delete(value);
+  return encoded;
+};
+
+// JSON.parse reviver that turns `{ $type, value }` tags back into their types
+const decodeTagged = (_key: string, value: unknown): unknown => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+  const tag = value as Record<string, unknown>;
+  if (Object.keys(tag).length !== 2 || typeof tag[TYPE_KEY] !== 'string' || !('value' in tag)) {
+    return value;
+  }
+
+  const payload = tag.value;
+  if (typeof payload === 'string') {
+    if (tag[TYPE_KEY] === 'Date') return new Date(payload);
+    if (tag[TYPE_KEY] === 'BigInt') return BigInt(payload);
+    return value;
+  }
+  if (!Array.isArray(payload)) return value;
+  switch (tag[TYPE_KEY]) {
+    case 'List':
+      return new List(payload);
+    case 'Map':
+      return new Map(payload);
+    case 'Set':
+      return new Set(payload);
+    case 'Object':
+      return Object.fromEntries(payload);
+    default:
+      return value;
+  }
+};
+
+// Tags are only revived in tagged mode, so plain data shaped like a tag stays as it is
+const createReviver = (tagged: boolean, reviver?: JSONReviver): JSONReviver | undefined => {
+  if (!tagged || !reviver) return tagged ? decodeTagged : reviver;
+  return function (this: unknown, key, value) {
+    return reviver.call(this, key, decodeTagged(key, value));
+  };
+};
+
+const serialize = <T>(list: List<T>, options: SerializeOptions = {}): string =>
+  JSON.stringify(options.tagged ? encodeTagged(list) : list, null, options.space);
+
+// Apply `reviver` bottom-up the way JSON.parse does, to a value that was parsed already
+const reviveParsed = (holder: object, key: string, reviver: JSONReviver): unknown => {
+  const value = (holder as Record<string, unknown>)[key];
+  let revived = value;
+  if (Array.isArray(value)) {
+    revived = value.map((_, index) => reviveParsed(value, String(index), reviver));
+  } else if (typeof value === 'object' && value !== null) {
+    const object: Record<string, unknown> = {};
+    for (const name of Object.keys(value)) {
+      const item = reviveParsed(value, name, reviver);
+      if (item !== undefined) object[name] = item;
+    }
+    revived = object;
+  }
+  return reviver.call(holder, key, revived);
+};
+
+const parse = <T>(json: string | unknown, options: ParseOptions = {}): List<T> => {
+  const revive = createReviver(options.tagged ?? false, options.reviver);
+  let parsed: unknown;
+  if (typeof json === 'string') parsed = JSON.parse(json, revive);
+  else parsed = revive ? reviveParsed({ '': json }, '', revive) : json;
+
+  if (parsed instanceof List) return parsed;
+  if (Array.isArray(parsed)) return new List(parsed);
+  throw new ListTypeError('JSON must describe an array or a tagged List');
+};
+
+const toNDJSON = <T>(list: List<T>, options: SerializeOptions = {}): string =>
+  list
+    .toArray()
+    .map((item) => JSON.stringify(options.tagged ? encodeTagged(item) : item))
+    .join('\n');
+
+const parseNDJSON = <T>(text: string, options: ParseOptions = {}): List<T> => {
+  const revive = createReviver(options.tagged ?? false, options.reviver);
+  const items: T[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+    try {
+      items.push(JSON.parse(line, revive));
+    } catch (error) {
+      throw new SyntaxError(`Invalid JSON on line ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+  return new List(items);
+};
+
+const quoteField = (field: string, delimiter: string, quoteAll: boolean): string => {
+  const needsQuotes =
+    quoteAll || field.includes(delimiter) || /["\r\n]/.test(field) || field !== field.trim();
+  return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const toCSV = <T>(list: List<T>, options: CsvWriteOptions = {}): string => {
+  const { delimiter = ',', header = true, newline = '\n', quoteAll = false } = options;
+  const rows = list.toArray();
+  const isObjectRows = rows.some(
+    (row) => row !== null && typeof row === 'object' && !Array.isArray(row)
+  );
+
+  let columns = options.columns;
+  if (!columns && isObjectRows) {
+    const seen = new Set<string>();
+    for (const row of rows) {
+      if (row && typeof row === 'object') Object.keys(row).forEach((key) => seen.add(key));
+    }
+    columns = Array.from(seen);
+  }
+
+  const line = (cells: unknown[]) =>
+    cells.map((cell) => quoteField(formatCell(cell), delimiter, quoteAll)).join(delimiter);
+
+  const lines: string[] = [];
+  if (header && columns) lines.push(line(columns));
+  for (const row of rows) {
+    if (Array.isArray(row)) {
+      lines.push(line(row));
+    } else if (columns && row !== null && typeof row === 'object') {
+      lines.push(line(columns.map((column) => (row as Record<string, unknown>)[column])));
+    } else {
+      lines.push(line([row]));
+    }
+  }
+  return lines.join(newline);
+};
+
+// RFC 4180 tokenizer: quoted fields may contain delimiters, newlines and doubled quotes
+const tokenizeCSV = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  // Ignore a byte order mark
+  if (text.charCodeAt(0) === 0xfeff) i = 1;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      i++;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length;
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  if (inQuotes) {
+    throw new SyntaxError('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Length of `text` up to the end of its last complete row, for parsing CSV in chunks: a row
+// is only complete once a line break outside quotes follows it
+const completeCSVLength = (text: string, delimiter: string): number => {
+  let complete = 0;
+  let inQuotes = false;
+  let fieldStart = true;
+
+  // Skip a byte order mark, like `tokenizeCSV`
+  for (let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char !== '"') continue;
+      // A quote at the end may still turn out to be the first of a doubled pair
+      if (i + 1 === text.length) break;
+      if (text[i + 1] === '"') i++;
+      else inQuotes = false;
+    } else if (char === '"' && fieldStart) {
+      inQuotes = true;
+    } else if (text.startsWith(delimiter, i)) {
+      fieldStart = true;
+      i += delimiter.length - 1;
+      continue;
+    } else if (char === '\n' || (char === '\r' && i + 1 < text.length && text[i + 1] !== '\n')) {
+      complete = i + 1;
+      fieldStart = true;
+      continue;
+    } else if (char === '\r') {
+      continue;
+    }
+    fieldStart = false;
+  }
+  return complete;
+};
+
+const inferValue = (raw: string): unknown => {
+  if (raw === '') return null;
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(raw.trim())) return Number(raw);
+  return raw;
+};
+
+const convertCell = (
+  raw: string,
+  type: CsvColumnType | undefined,
+  dynamicTyping: boolean
+): unknown => {
+  if (typeof type === 'function') return type(raw);
+  switch (type) {
+    case 'string':
+      return raw;
+    case 'number':
+      return raw.trim() === '' ? null : Number(raw);
+    case 'boolean':
+      return raw === '' ? null : /^(true|1|yes)$/i.test(raw.trim());
+    case 'date':
+      return raw === '' ? null : new Date(raw);
+    default:
+      return dynamicTyping ? inferValue(raw) : raw;
+  }
+};
+
+// Turns tokenized rows into records, or arrays without a header. The header row is the first
+// row the converter sees, so a stream's rows can be converted chunk by chunk.
+const createCSVConverter = <T>(options: CsvParseOptions = {}) => {
+  const { header = true, types = {}, dynamicTyping = false, skipEmptyLines = true } = options;
+  let columns: string[] | undefined;
+
+  return (rows: string[][]): T[] => {
+    if (skipEmptyLines) {
+      rows = rows.filter((row) => row.length > 1 || row[0] !== '');
+    }
+
+    if (!header) {
+      return rows.map((row) =>
+        row.map((cell, index) => convertCell(cell, types[index], dynamicTyping))
+      ) as T[];
+    }
+
+    if (!columns) {
+      if (rows.length === 0) return [];
+      [columns, ...rows] = rows;
+    }
+    const names = columns;
+    return rows.map((row) => {
+      const record: Record<string, unknown> = {};
+      names.forEach((column, index) => {
+        record[column] = convertCell(row[index] ?? '', types[column], dynamicTyping);
+      });
+      return record as T;
+    });
+  };
+};
+
+const parseCSV = <T>(text: string, options: CsvParseOptions = {}): List<T> =>
+  new List(createCSVConverter<T>(options)(tokenizeCSV(text, options.delimiter ?? ',')));
+
+export type {
+  CsvColumnType,
+  CsvParseOptions,
+  CsvWriteOptions,
+  JSONReviver,
+  ParseOptions,
+  SerializeOptions,
+};
+
+export {
+  completeCSVLength,
+  createCSVConverter,
+  createReviver,
+  decodeTagged,
+  encodeTagged,
+  parse,
+  parseCSV,
+  parseNDJSON,
+  serialize,
+  toCSV,
+  toNDJSON,
+  tokenizeCSV,
+};
@@ -0,0 +1,224 @@
+import { ListArgumentError } from './errors';
+
+type QuantileMethod = 'linear' | 'lower' | 'higher' | 'nearest' | 'midpoint';
+
+type VarianceOptions = {
+  // Use the sample (n - 1) estimator instead of the population one
+  sample?: boolean;
+};
+
+type QuantileOptions = {
+  method?: QuantileMethod;
+};
+
+type Description = {
+  count: number;
+  sum: number;
+  mean: number;
+  variance: number;
+  standardDeviation: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  iqr: number;
+  skewness: number;
+  kurtosis: number;
+};
+
+// Compensated (Kahan–Babuška) summation, keeps precision for long sequences of floats
+const kahanSum = (values: readonly number[]): number => {
+  let sum = 0;
+  let compensation = 0;
+  for (const value of values) {
+    const t = sum + value;
+    if (Math.abs(sum) >= Math.abs(value)) {
+      compensation += sum - t + value;
+    } else {
+      compensation += value - t + sum;
+    }
+    sum = t;
+  }
+  return sum + compensation;
+};
+
+const mean = (values: readonly number[]): number =>
+  values.length === 0 ? NaN : kahanSum(values) / values.length;
+
+// Welford's online algorithm: mean and sum of squared deviations in one stable pass
+const welford = (values: readonly number[]): { mean: number; m2: number } => {
+  let avg = 0;
+  let m2 = 0;
+  let n = 0;
+  for (const value of values) {
+    n++;
+    const delta = value - avg;
+    avg += delta / n;
+    m2 += delta * (value - avg);
+  }
+  return { mean: avg, m2 };
+};
+
+const variance = (values: readonly number[], options: VarianceOptions = {}): number => {
+  const n = values.length;
+  const denominator = options.sample ? n - 1 : n;
+  if (denominator <= 0) return NaN;
+  return welford(values).m2 / denominator;
+};
+
+const standardDeviation = (values: readonly number[], options: VarianceOptions = {}): number =>
+  Math.sqrt(variance(values, options));
+
+const sortNumbers = (values: readonly number[]): number[] => [...values].sort((a, b) => a - b);
+
+// Quantile of already sorted values, q in [0, 1]
+const quantileSorted = (
+  sorted: readonly number[],
+  q: number,
+  method: QuantileMethod = 'linear'
+): number => {
+  if (sorted.length === 0 || Number.isNaN(q)) return NaN;
+  if (q < 0 || q > 1) {
+    throw new ListArgumentError(`Quantile must be between 0 and 1, got ${q}`);
+  }
+
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const fraction = position - lower;
+
+  switch (method) {
+    case 'lower':
+      return sorted[lower];
+    case 'higher':
+      return sorted[upper];
+    case 'nearest':
+      // Ties round to the even index, matching NumPy
+      return sorted[fraction === 0.5 ? (lower % 2 === 0 ? lower : upper) : Math.round(position)];
+    case 'midpoint':
+      return (sorted[lower] + sorted[upper]) / 2;
+    default:
+      return sorted[lower] + (sorted[upper] - sorted[lower]) * fraction;
+  }
+};
+
+// Central moment ratios shared by skewness and kurtosis
+const centralMoments = (values: readonly number[]): { m2: number; m3: number; m4: number } => {
+  const avg = mean(values);
+  const n = values.length;
+  const squares: number[] = [];
+  const cubes: number[] = [];
+  const fourths: number[] = [];
+  for (const value of values) {
+    const d = value - avg;
+    squares.push(d * d);
+    cubes.push(d * d * d);
+    fourths.push(d * d * d * d);
+  }
+  return { m2: kahanSum(squares) / n, m3: kahanSum(cubes) / n, m4: kahanSum(fourths) / n };
+};
+
+const skewness = (values: readonly number[], options: VarianceOptions = {}): number => {
+  const n = values.length;
+  if (n < (options.sample ? 3 : 1)) return NaN;
+  const { m2, m3 } = centralMoments(values);
+  const g1 = m3 / Math.pow(m2, 1.5);
+  return options.sample ? (g1 * Math.sqrt(n * (n - 1))) / (n - 2) : g1;
+};
+
+// Excess kurtosis (0 for a normal distribution)
+const kurtosis = (values: readonly number[], options: VarianceOptions = {}): number => {
+  const n = values.length;
+  if (n < (options.sample ? 4 : 1)) return NaN;
+  const { m2, m4 } = centralMoments(values);
+  const g2 = m4 / (m2 * m2) - 3;
+  return options.sample ? (((n + 1) * g2 + 6) * (n - 1)) / ((n - 2) * (n - 3)) : g2;
+};
+
+const covariance = (
+  x: readonly number[],
+  y: readonly number[],
+  options: VarianceOptions = {}
+): number => {
+  if (x.length !== y.length) {
+    throw new ListArgumentError(`Lists must have the same length, got ${x.length} and ${y.length}`);
+  }
+  const n = x.length;
+  const denominator = options.sample ? n - 1 : n;
+  if (denominator <= 0) return NaN;
+
+  let meanX = 0;
+  let meanY = 0;
+  let comoment = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    meanX += dx / (i + 1);
+    meanY += (y[i] - meanY) / (i + 1);
+    comoment += dx * (y[i] - meanY);
+  }
+  return comoment / denominator;
+};
+
+// Pearson correlation coefficient
+const correlation = (x: readonly number[], y: readonly number[]): number =>
+  covariance(x, y) / (standardDeviation(x) * standardDeviation(y));
+
+const geometricMean = (values: readonly number[]): number => {
+  if (values.length === 0 || values.some((value) => value <= 0)) return NaN;
+  return Math.exp(mean(values.map(Math.log)));
+};
+
+const harmonicMean = (values: readonly number[]): number => {
+  if (values.length === 0 || values.some((value) => value <= 0)) return NaN;
+  return values.length / kahanSum(values.map((value) => 1 / value));
+};
+
+const zScores = (values: readonly number[], options: VarianceOptions = {}): number[] => {
+  const avg = mean(values);
+  const std = standardDeviation(values, options);
+  return values.map((value) => (value - avg) / std);
+};
+
+const describe = (values: readonly number[], options: VarianceOptions = {}): Description => {
+  const sorted = sortNumbers(values);
+  const q1 = quantileSorted(sorted, 0.25);
+  const q3 = quantileSorted(sorted, 0.75);
+  const sum = kahanSum(values);
+  const varianceValue = variance(values, options);
+
+  return {
+    count: values.length,
+    sum,
+    mean: values.length === 0 ? NaN : sum / values.length,
+    variance: varianceValue,
+    standardDeviation: Math.sqrt(varianceValue),
+    min: values.length === 0 ? NaN : sorted[0],
+    q1,
+    median: quantileSorted(sorted, 0.5),
+    q3,
+    max: values.length === 0 ? NaN : sorted[sorted.length - 1],
+    iqr: q3 - q1,
+    skewness: skewness(values, options),
+    kurtosis: kurtosis(values, options),
+  };
+};
+
+export type { Description, QuantileMethod, QuantileOptions, VarianceOptions };
+
+export {
+  correlation,
+  covariance,
+  describe,
+  geometricMean,
+  harmonicMean,
+  kahanSum,
+  kurtosis,
+  mean,
+  quantileSorted,
+  skewness,
+  sortNumbers,
+  standardDeviation,
+  variance,
+  zScores,
+};
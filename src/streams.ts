@@ -0,0 +1,203 @@
+import List from './List';
+import { ListArgumentError, ListTypeError, assertSize } from './errors';
+import {
+  completeCSVLength,
+  createCSVConverter,
+  createReviver,
+  encodeTagged,
+  tokenizeCSV,
+} from './serialization';
+import type { CsvParseOptions } from './serialization';
+
+// How stream chunks become elements: as they are (object mode), or as text split into lines,
+// optionally parsed as NDJSON (blank lines skipped), or parsed as CSV rows
+type StreamFormat = 'objects' | 'lines' | 'ndjson' | 'csv';
+
+type StreamBatchOptions = {
+  // Elements per List batch (default: 1000)
+  batchSize?: number;
+  format?: StreamFormat;
+  // Revive tagged values in NDJSON input, like `List.fromNDJSON`
+  tagged?: boolean;
+  // Options for `format: 'csv'`, as for `List.fromCSV`
+  csv?: CsvParseOptions;
+};
+
+type StreamWriteOptions = {
+  // Write elements as they are (object mode) or as NDJSON text
+  output?: 'objects' | 'ndjson';
+  // Tag Lists, Dates, Maps, Sets and BigInts in NDJSON output, like `toNDJSON`
+  tagged?: boolean;
+};
+
+type StreamUniqueOptions<T> = {
+  // Compare by this key instead of the element itself (SameValueZero)
+  key?: (item: T) => unknown;
+  // Most keys remembered at once; the least recently seen are forgotten first (default: 100000)
+  limit?: number;
+};
+
+type ListTransformOptions<U = unknown> = StreamBatchOptions &
+  StreamWriteOptions & {
+    // Drop output elements already written for an earlier batch too, within `limit` keys
+    unique?: boolean | StreamUniqueOptions<U>;
+  };
+
+type BatchPipeline<T, U> = (
+  batch: List<T>
+) => List<U> | Iterable<U> | PromiseLike<List<U> | Iterable<U>>;
+
+type ChunkDecoder = {
+  write(chunk: unknown): unknown[];
+  end(): unknown[];
+};
+
+// `complete` is the length of the text up to the last whole line or record, and `decode`
+// turns such text (or what is left at the end of the stream) into elements
+type TextFormat = {
+  complete(text: string): number;
+  decode(text: string): unknown[];
+};
+
+const lineFormat = (ndjson: boolean, tagged: boolean): TextFormat => {
+  const revive = createReviver(tagged);
+  let lineNumber = 0;
+  return {
+    complete: (text) => text.lastIndexOf('\n') + 1,
+    decode(text) {
+      const lines = text.split(/\r?\n/);
+      if (lines[lines.length - 1] === '') lines.pop();
+      if (!ndjson) return lines;
+
+      const items: unknown[] = [];
+      for (const line of lines) {
+        lineNumber++;
+        if (line.trim() === '') continue;
+        try {
+          items.push(JSON.parse(line, revive));
+        } catch (error) {
+          throw new SyntaxError(`Invalid JSON on line ${lineNumber}: ${(error as Error).message}`);
+        }
+      }
+      return items;
+    },
+  };
+};
+
+// The header row is read from the first chunk and applies to the rows of all later ones
+const csvFormat = (options: CsvParseOptions): TextFormat => {
+  const { delimiter = ',' } = options;
+  const convert = createCSVConverter(options);
+  return {
+    complete: (text) => completeCSVLength(text, delimiter),
+    decode: (text) => convert(tokenizeCSV(text, delimiter)),
+  };
+};
+
+// Splits text chunks (strings or bytes) into lines or CSV records, also across chunk
+// boundaries
+const createDecoder = (options: StreamBatchOptions): ChunkDecoder => {
+  const { format = 'objects', tagged = false, csv = {} } = options;
+  if (format === 'objects') return { write: (chunk) => [chunk], end: () => [] };
+  if (format !== 'lines' && format !== 'ndjson' && format !== 'csv') {
+    throw new ListArgumentError(`Unknown stream format: ${format}`);
+  }
+
+  const text = format === 'csv' ? csvFormat(csv) : lineFormat(format === 'ndjson', tagged);
+  const decoder = new TextDecoder();
+  let rest = '';
+
+  return {
+    write(chunk) {
+      rest +=
+        typeof chunk === 'string' ? chunk : decoder.decode(chunk as Uint8Array, { stream: true });
+      const length = text.complete(rest);
+      const complete = rest.slice(0, length);
+      rest = rest.slice(length);
+      return text.decode(complete);
+    },
+    end() {
+      rest += decoder.decode();
+      const items = text.decode(rest);
+      rest = '';
+      return items;
+    },
+  };
+};
+
+// Collects elements into Lists of `batchSize`
+const createBatcher = <T>(batchSize: number) => {
+  assertSize('Batch size', batchSize, true);
+  let batch: T[] = [];
+  return {
+    push(items: unknown[]): List<T>[] {
+      const full: List<T>[] = [];
+      for (const item of items) {
+        batch.push(item as T);
+        if (batch.length === batchSize) {
+          full.push(new List(batch));
+          batch = [];
+        }
+      }
+      return full;
+    },
+    flush(): List<T>[] {
+      const rest = batch.length > 0 ? [new List(batch)] : [];
+      batch = [];
+      return rest;
+    },
+  };
+};
+
+const createEncoder = (options: StreamWriteOptions) => {
+  const { output = 'objects', tagged = false } = options;
+  return (item: unknown): unknown => {
+    if (output === 'ndjson') return `${JSON.stringify(tagged ? encodeTagged(item) : item)}\n`;
+    // `null` ends an object mode stream
+    if (item === null || item === undefined) {
+      throw new ListTypeError('Object mode streams cannot carry null or undefined elements');
+    }
+    return item;
+  };
+};
+
+// Whether an element is new, remembering only the `limit` most recently seen keys, so memory
+// stays bounded however long the stream; a key forgotten since is let through again
+const createSeenFilter = <T>(options: StreamUniqueOptions<T>) => {
+  const { key = (item: T): unknown => item, limit = 100000 } = options;
+  assertSize('Unique limit', limit, true);
+  // Sets iterate in insertion order, so re-adding a key marks it as the most recently seen
+  const seen = new Set<unknown>();
+  return (item: T): boolean => {
+    const value = key(item);
+    const known = seen.delete(value);
+    seen.add(value);
+    if (seen.size > limit) seen.delete(seen.values().next().value);
+    return !known;
+  };
+};
+
+// Read a stream as Lists of up to `batchSize` elements, so only one batch is held at a time.
+// Reading pauses while the caller processes a batch, which applies backpressure upstream.
+async function* readBatches<T>(
+  source: AsyncIterable<unknown>,
+  options: StreamBatchOptions = {}
+): AsyncGenerator<List<T>> {
+  const decoder = createDecoder(options);
+  const batcher = createBatcher<T>(options.batchSize ?? 1000);
+  for await (const chunk of source) {
+    for (const batch of batcher.push(decoder.write(chunk))) yield batch;
+  }
+  for (const batch of batcher.push(decoder.end()).concat(batcher.flush())) yield batch;
+}
+
+export type {
+  BatchPipeline,
+  ListTransformOptions,
+  StreamBatchOptions,
+  StreamFormat,
+  StreamUniqueOptions,
+  StreamWriteOptions,
+};
+
+export { createBatcher, createDecoder, createEncoder, createSeenFilter, readBatches };
@@ -0,0 +1,13 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { List, ListArgumentError, ListRangeError } from '../src';
+
+test('invalid async options reject instead of throwing', async () => {
+  const list = new List([1, 2, 3]);
+  const noop = () => undefined;
+
+  await assert.rejects(list.eachAsync(noop, { step: 0 }), ListArgumentError);
+  await assert.rejects(list.mapAsync(noop, { concurrency: 0 }), ListArgumentError);
+  await assert.rejects(list.eachAsync(noop, { concurrency: NaN }), ListArgumentError);
+  await assert.rejects(list.useStrict().filterAsync(() => true, { start: 5 }), ListRangeError);
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ImmutableList, List } from '../src';
+
+class Point {
+  constructor(
+    public x: number,
+    public y: number
+  ) {}
+}
+
+test('deep clones copy nested containers and keep prototypes', () => {
+  const row = new List([new Point(1, 2)]);
+  const grid = new List([row, new List([new Point(3, 4)])]);
+  const meta = {
+    when: new Date(0),
+    tags: new Set(['a']),
+    lookup: new Map([['k', [1, 2]]]),
+    bytes: new Uint8Array([1, 2]),
+  };
+  const list = new List<unknown>([grid, meta]);
+  const copy = list.clone({ deep: true });
+
+  assert.deepEqual(copy.toArray({ deep: true }), list.toArray({ deep: true }));
+  const [gridCopy, metaCopy] = copy.toArray() as [List<List<Point>>, typeof meta];
+  assert.notEqual(gridCopy, grid);
+  assert.notEqual(gridCopy.at(0), row);
+  assert.ok(gridCopy.at(0)!.at(0) instanceof Point);
+  assert.notEqual(gridCopy.at(0)!.at(0), row.at(0));
+  assert.notEqual(metaCopy.lookup.get('k'), meta.lookup.get('k'));
+  assert.notEqual(metaCopy.bytes, meta.bytes);
+
+  // A shallow clone shares the elements
+  assert.equal(list.clone().at(0), grid);
+});
+
+test('cycles and shared references stay intact in the copy', () => {
+  const shared = { id: 1 };
+  const node: Record<string, unknown> = { shared };
+  node.self = node;
+  const list = new List<unknown>([node, shared]);
+  list.push(list);
+
+  const copy = list.clone({ deep: true });
+  const nodeCopy = copy.at(0) as Record<string, unknown>;
+  assert.equal(nodeCopy.self, nodeCopy);
+  assert.equal(nodeCopy.shared, copy.at(1));
+  assert.notEqual(copy.at(1), shared);
+  assert.equal(copy.at(2), copy);
+});
+
+test('functions and ImmutableLists are shared, nested Lists unwrap deeply', () => {
+  const fn = () => 1;
+  const frozen = ImmutableList.of(1, 2);
+  const copy = new List<unknown>([fn, frozen]).clone({ deep: true });
+  assert.equal(copy.at(0), fn);
+  assert.equal(copy.at(1), frozen);
+
+  const grid = new List([new List([1, 2]), new List([3])]);
+  assert.deepEqual(grid.toArray({ deep: true }), [[1, 2], [3]]);
+  assert.equal(JSON.stringify(grid), '[[1,2],[3]]');
+  assert.deepEqual(grid.flatten().toArray(), [1, 2, 3]);
+  assert.ok(grid.equals(new List([new List([1, 2]), new List([3])])));
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { List } from '../src';
+
+test('breakFn, continueFn and stop end or skip the callback', () => {
+  const list = new List([1, 2, 3, 4, 5]);
+  const seen: number[] = [];
+  const result = list.each((value, _index, { breakFn, continueFn }) => {
+    if (value === 2) continueFn();
+    if (value === 4) breakFn();
+    seen.push(value);
+  });
+  assert.equal(result, undefined);
+  assert.deepEqual(seen, [1, 3]);
+
+  assert.equal(
+    list.each((value, _index, { stop }) => {
+      if (value === 3) stop('three');
+    }),
+    'three'
+  );
+  assert.deepEqual(
+    list
+      .map((value, _index, { continueFn, stop }) => {
+        if (value % 2 === 0) continueFn();
+        return value === 5 ? stop(50) : value * 10;
+      })
+      .toArray(),
+    [10, 30, 50]
+  );
+});
+
+test('a nested iteration does not intercept the outer loop signals', () => {
+  const list = new List([1, 2, 3]);
+  const pairs: number[][] = [];
+  list.each((outer, _index, { breakFn }) => {
+    list.each((inner) => {
+      if (outer === 2) breakFn();
+      pairs.push([outer, inner]);
+    });
+  });
+  assert.deepEqual(pairs, [
+    [1, 1],
+    [1, 2],
+    [1, 3],
+  ]);
+});
+
+test('start, end, step and reverse select the visited elements and their neighbors', () => {
+  const list = List.range(0, 10);
+  const visits: unknown[] = [];
+  list.each(
+    (value, index, { prev, next, before, after, isFirst, isLast }) => {
+      visits.push({ value, index, prev, next, before, after, isFirst, isLast });
+    },
+    { start: 1, end: -1, step: 3, reverse: true, window: 1 }
+  );
+  assert.deepEqual(visits, [
+    {
+      value: 8,
+      index: 8,
+      prev: undefined,
+      next: 5,
+      before: [],
+      after: [5],
+      isFirst: true,
+      isLast: false,
+    },
+    {
+      value: 5,
+      index: 5,
+      prev: 8,
+      next: 2,
+      before: [8],
+      after: [2],
+      isFirst: false,
+      isLast: false,
+    },
+    {
+      value: 2,
+      index: 2,
+      prev: 5,
+      next: undefined,
+      before: [5],
+      after: [],
+      isFirst: false,
+      isLast: true,
+    },
+  ]);
+  assert.deepEqual(list.map((value) => value, { start: 5, end: 2 }).toArray(), []);
+});
+
+test('an aborted signal throws its reason before the next callback', () => {
+  const controller = new AbortController();
+  const seen: number[] = [];
+  const reason = new Error('aborted');
+  assert.throws(
+    () =>
+      new List([1, 2, 3]).each(
+        (value) => {
+          seen.push(value);
+          if (value === 2) controller.abort(reason);
+        },
+        { signal: controller.signal }
+      ),
+    reason
+  );
+  assert.deepEqual(seen, [1, 2]);
+});
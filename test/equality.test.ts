@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { List, deepEqual, deepHash } from '../src';
+
+test('deep equality compares structure, including cycles and nested Lists', () => {
+  const a: Record<string, unknown> = {
+    date: new Date(0),
+    tags: new Set(['x']),
+    list: new List([1]),
+  };
+  const b: Record<string, unknown> = {
+    date: new Date(0),
+    tags: new Set(['x']),
+    list: new List([1]),
+  };
+  a.self = a;
+  b.self = b;
+  assert.ok(deepEqual(a, b));
+  assert.equal(deepHash(a), deepHash(b));
+  assert.ok(!deepEqual(new Map([[1, { x: 1 }]]), new Map([[1, { x: 2 }]])));
+  assert.ok(!deepEqual([1, 2], { 0: 1, 1: 2, length: 2 }));
+
+  const list = new List([{ x: 1 }, { x: 2 }]);
+  assert.ok(!list.equals(new List([{ x: 1 }, { x: 2 }])));
+  assert.ok(list.equals(new List([{ x: 1 }, { x: 2 }]), { deep: true }));
+});
+
+test('groupBy, unique and mode use the list or call equality', () => {
+  const sales = new List([
+    { year: 2024, month: 1, amount: 5 },
+    { year: 2024, month: 2, amount: 3 },
+    { year: 2024, month: 1, amount: 2 },
+  ]);
+  const byMonth = sales.groupBy((sale) => ({ year: sale.year, month: sale.month }), 'deep');
+  assert.equal(byMonth.size, 2);
+  assert.deepEqual(
+    byMonth
+      .get(Array.from(byMonth.keys())[0])!
+      .toArray()
+      .map((sale) => sale.amount),
+    [5, 2]
+  );
+  assert.equal(sales.groupBy((sale) => ({ month: sale.month })).size, 3);
+
+  const points = new List([{ x: 1 }, { x: 2 }, { x: 1 }]).useEquality('deep');
+  assert.deepEqual(points.unique.toArray(), [{ x: 1 }, { x: 2 }]);
+  assert.deepEqual(points.mode, { x: 1 });
+  assert.equal(points.indexOf({ x: 2 }), 1);
+  assert.equal(points.lastIndexOf({ x: 1 }, undefined, 'identity'), -1);
+});
+
+test('custom strategies hash and compare by their own rules', () => {
+  let hashed = 0;
+  const caseInsensitive = {
+    equals: (a: string, b: string) => a.toLowerCase() === b.toLowerCase(),
+    hash: (value: string) => {
+      hashed++;
+      return value.toLowerCase().length;
+    },
+  };
+  const words = new List(['Apple', 'apple', 'Pear', 'APPLE']).useEquality(caseInsensitive);
+  assert.deepEqual(words.unique.toArray(), ['Apple', 'Pear']);
+  assert.ok(hashed > 0);
+  // The element that first reaches the highest count
+  assert.equal(words.mode, 'APPLE');
+
+  let calls = 0;
+  const memoized = words.memoize((word) => {
+    calls++;
+    return word.length;
+  });
+  assert.equal(memoized('PEAR'), 4);
+  assert.equal(memoized('pear'), 4);
+  assert.equal(calls, 1);
+  const groups = words.groupBy((word) => word, caseInsensitive);
+  assert.deepEqual(Array.from(groups.keys()), ['Apple', 'Pear']);
+  assert.equal(groups.get('Apple')?.length, 3);
+});
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { List, ListArgumentError } from '../src';
+
+test('List.from takes any iterable or array-like as elements', () => {
+  assert.deepEqual(List.from('abc').toArray(), ['a', 'b', 'c']);
+  assert.deepEqual(List.from(new Map([['a', 1]])).toArray(), [['a', 1]]);
+  assert.deepEqual(List.from(new Uint8Array([1, 2])).toArray(), [1, 2]);
+  assert.deepEqual(List.from({ length: 2, 0: 'x', 1: 'y' }).toArray(), ['x', 'y']);
+  function* squares() {
+    for (let i = 1; i <= 3; i++) yield i * i;
+  }
+  assert.deepEqual(List.from(squares(), (n, i) => n + i).toArray(), [1, 5, 11]);
+});
+
+test('range, generate, unfold and linspace build number sequences', () => {
+  assert.deepEqual(List.range(3).toArray(), [0, 1, 2]);
+  assert.deepEqual(List.range(5, 0, -2).toArray(), [5, 3, 1]);
+  assert.deepEqual(List.range(0, 3, -1).toArray(), []);
+  assert.throws(() => List.range(0, 3, 0), ListArgumentError);
+
+  assert.deepEqual(List.generate(3, (i) => i * 10).toArray(), [0, 10, 20]);
+  const fibonacci = List.unfold([0, 1], ([a, b]) =>
+    a > 20 ? undefined : [a, [b, a + b] as [number, number]]
+  );
+  assert.deepEqual(fibonacci.toArray(), [0, 1, 1, 2, 3, 5, 8, 13]);
+
+  assert.deepEqual(List.linspace(0, 1, 5).toArray(), [0, 0.25, 0.5, 0.75, 1]);
+  assert.deepEqual(List.linspace(0, 1, 4, { endpoint: false }).toArray(), [0, 0.25, 0.5, 0.75]);
+  assert.deepEqual(List.linspace(2, 3, 1).toArray(), [2]);
+});
+
+// toRecord builds prototype-free objects
+const record = (entries: object) => Object.assign(Object.create(null), entries);
+
+test('entries round-trip through Maps, records and typed arrays', () => {
+  const entries = List.fromEntries({ a: 1, b: 2 });
+  assert.deepEqual(entries.toArray(), [
+    ['a', 1],
+    ['b', 2],
+  ]);
+  assert.deepEqual(List.fromEntries(entries.toMap()).toArray(), entries.toArray());
+  assert.deepEqual(entries.toRecord(), record({ a: 1, b: 2 }));
+  assert.deepEqual(
+    entries.toRecord(
+      ([key]) => key.toUpperCase(),
+      ([, value]) => value
+    ),
+    record({ A: 1, B: 2 })
+  );
+
+  const typed = List.range(3).toTypedArray(Int16Array);
+  assert.ok(typed instanceof Int16Array);
+  assert.deepEqual(Array.from(typed), [0, 1, 2]);
+  assert.ok(List.range(2).toTypedArray() instanceof Float64Array);
+});
+
+test('fromAsync awaits async iterables, promises and the mapping function in order', async () => {
+  async function* ticks() {
+    yield 1;
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    yield 2;
+  }
+  assert.deepEqual((await List.fromAsync(ticks())).toArray(), [1, 2]);
+  assert.deepEqual(
+    (await List.fromAsync([Promise.resolve('a'), 'b'], async (item, i) => `${item}${i}`)).toArray(),
+    ['a0', 'b1']
+  );
+  await assert.rejects(List.fromAsync([Promise.reject(new Error('failed'))]), /failed/);
+});
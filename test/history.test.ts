@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { List, ListError, ObservableList, SortedList } from '../src';
+import type { ListChange } from '../src';
+
+test('undo and redo every kind of edit on a List', () => {
+  const list = new List([3, 1, 2]).enableHistory();
+  const states: number[][] = [list.toArray()];
+  const edits = [
+    () => list.push(4, 5),
+    () => list.insert(0, -1),
+    () => list.pop(),
+    () => list.remove(1),
+    () => list.shift(),
+    () => list.unshift(9),
+    () => list.fill(7, 1, 3),
+    () => list.rotate(2),
+    () => list.sort(),
+    () => list.sortBy((value) => -value),
+    () => list.useRandom(1).shuffle(),
+    () => list.reverse(),
+    () => list.insertSorted(6),
+    () => list.restore({ items: [8, 3, 1] }),
+  ];
+  edits.forEach((edit) => {
+    edit();
+    states.push(list.toArray());
+  });
+
+  for (let i = states.length - 1; i > 0; i--) {
+    assert.equal(list.undo(), true);
+    assert.deepEqual(list.toArray(), states[i - 1]);
+  }
+  assert.equal(list.canUndo, false);
+  assert.equal(list.undo(), false);
+
+  for (let i = 1; i < states.length; i++) {
+    assert.equal(list.redo(), true);
+    assert.deepEqual(list.toArray(), states[i]);
+  }
+  assert.equal(list.canRedo, false);
+});
+
+test('reorders with duplicate elements are undone exactly', () => {
+  const a = { id: 'a' };
+  const b = { id: 'b' };
+  const list = new List([a, b, a, b, a]).enableHistory();
+  list.sortBy((item) => item.id);
+  assert.deepEqual(list.toArray(), [a, a, a, b, b]);
+  list.undo();
+  assert.deepEqual(list.toArray(), [a, b, a, b, a]);
+});
+
+test('batches are one step and the limit drops the oldest steps', () => {
+  const list = new List<number>().enableHistory({ limit: 2 });
+  list.batch(() => {
+    list.push(1);
+    list.push(2);
+  });
+  list.push(3);
+  list.push(4);
+  list.undo();
+  list.undo();
+  assert.deepEqual(list.toArray(), [1, 2]);
+  assert.equal(list.canUndo, false);
+
+  assert.throws(() => list.batch(() => list.undo()), ListError);
+});
+
+test('a rolled back transaction leaves no history', () => {
+  const list = new List([1, 2]).enableHistory();
+  list.push(3);
+  assert.throws(() =>
+    list.transaction(() => {
+      list.push(4);
+      list.reverse();
+      throw new Error('rollback');
+    })
+  );
+  assert.deepEqual(list.toArray(), [1, 2, 3]);
+  list.undo();
+  assert.deepEqual(list.toArray(), [1, 2]);
+  assert.equal(list.canUndo, false);
+});
+
+test('ObservableList replays undo as change notifications', () => {
+  const list = new ObservableList([2, 3, 1]).enableHistory();
+  const view = list.mapLive((value) => value * 10);
+  const notifications: ListChange<number>[][] = [];
+  list.subscribe((changes) => notifications.push(changes));
+
+  list.batch(() => {
+    list.push(4);
+    list.sort();
+  });
+  assert.deepEqual(view.toArray(), [10, 20, 30, 40]);
+
+  list.undo();
+  assert.deepEqual(list.toArray(), [2, 3, 1]);
+  assert.deepEqual(view.toArray(), [20, 30, 10]);
+  assert.equal(notifications.length, 2);
+
+  list.redo();
+  assert.deepEqual(view.toArray(), [10, 20, 30, 40]);
+});
+
+test('restoring a SortedList is one step', () => {
+  const list = new SortedList([1, 2, 3]).enableHistory();
+  list.restore({ items: [9, 4] });
+  assert.deepEqual(list.toArray(), [4, 9]);
+  list.undo();
+  assert.deepEqual(list.toArray(), [1, 2, 3]);
+});
+
+test('an asynchronous rollback restores the snapshot as one history step', async () => {
+  const list = new List([1, 2]).enableHistory();
+  const pending = list.transaction(async () => {
+    list.push(3);
+    await Promise.resolve();
+    throw new Error('rollback');
+  });
+
+  assert.throws(() => list.transaction(() => list.push(5)), ListError);
+  // Edits by other callers during the transaction are discarded by its rollback
+  list.push(4);
+  await assert.rejects(pending, /rollback/);
+  assert.deepEqual(list.toArray(), [1, 2]);
+
+  list.undo();
+  assert.deepEqual(list.toArray(), [1, 2, 3, 4]);
+
+  await list.transaction(async () => list.push(6));
+  assert.deepEqual(list.toArray(), [1, 2, 3, 4, 6]);
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ImmutableList, List } from '../src';
+
+test('callbacks see the same elements and neighbors as on a List', () => {
+  const items = [5, 3, 8, 1, 9, 2, 7];
+  const options = { start: 1, end: -1, step: 2, reverse: true, window: 2 };
+  const visits = (list: List<number> | ImmutableList<number>) => {
+    const seen: unknown[] = [];
+    list.each((value, index, { prev, next, before, after, isLast }) => {
+      seen.push([value, index, prev, next, before, after, isLast]);
+    }, options);
+    return seen;
+  };
+  assert.deepEqual(visits(ImmutableList.from(items)), visits(new List(items)));
+
+  const list = ImmutableList.from(items);
+  assert.equal(
+    list.find((value, _index, { stop }) => (value === 8 ? stop() : value > 6)),
+    undefined
+  );
+  assert.equal(
+    list.findIndex((value) => value > 7),
+    2
+  );
+  assert.equal(
+    list.reduce((sum, value) => sum + value, 0, { step: 3 }),
+    5 + 1 + 7
+  );
+  assert.equal(list.lastIndexOf(2, -2), 5);
+  assert.equal(list.lastIndexOf(2, -3), -1);
+  assert.equal(list.join(', ', { starting: true }), ', 5, 3, 8, 1, 9, 2, 7');
+});
+
+test('context.list is a copy, so callbacks cannot change the list', () => {
+  const list = ImmutableList.of(1, 2);
+  list.each((_value, _index, context) => {
+    context.list.push(3);
+  });
+  assert.deepEqual(list.toArray(), [1, 2]);
+});
+
+test('whole-list methods return ImmutableLists and keep unchanged results', () => {
+  const list = ImmutableList.of(3, 1, 2, 3);
+  const sorted = list.sort();
+  assert.equal(sorted.toSorted(), sorted);
+  const unique = sorted.unique;
+  assert.deepEqual(unique.toArray(), [1, 2, 3]);
+  assert.equal(
+    unique.sortBy((value) => value),
+    unique
+  );
+  assert.equal(unique.unique, unique);
+
+  const chunks = list.chunk(3);
+  assert.ok(chunks.first instanceof ImmutableList);
+  assert.deepEqual(
+    chunks.toArray().map((chunk) => chunk.toArray()),
+    [[3, 1, 2], [3]]
+  );
+  assert.deepEqual(
+    list
+      .groupBy((value) => value % 2)
+      .get(1)
+      ?.toArray(),
+    [3, 1, 3]
+  );
+  assert.deepEqual(list.union(ImmutableList.of(4)).toArray(), [3, 1, 2, 4]);
+  assert.deepEqual(list.zip(ImmutableList.of('a', 'b')).toArray(), [
+    [3, 'a'],
+    [1, 'b'],
+  ]);
+  assert.equal(list.median, new List([3, 1, 2, 3]).median);
+  assert.equal(list.variance({ sample: true }), new List([3, 1, 2, 3]).variance({ sample: true }));
+  assert.equal(list.permutations(2).length, 12);
+});
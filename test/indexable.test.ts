@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { MessageChannel } from 'node:worker_threads';
+import { IndexableList, List, ListRangeError } from '../src';
+
+test('bracket access, negative indices and length assignment', () => {
+  const list = new IndexableList([1, 2, 3]);
+  assert.equal(list[0], 1);
+  assert.equal(list[-1], 3);
+  list[-1] = 30;
+  list[3] = 4;
+  assert.deepEqual(list.toArray(), [1, 2, 30, 4]);
+  list.length = 2;
+  assert.deepEqual(list.toArray(), [1, 2]);
+  assert.throws(() => (list[-3] = 0), ListRangeError);
+  assert.throws(() => (list.useStrict()[2] = 0), ListRangeError);
+});
+
+test('passes as an array while staying a List', () => {
+  const list = new IndexableList([3, 1, 2]);
+  assert.ok(Array.isArray(list));
+  assert.ok(list instanceof IndexableList && list instanceof List);
+  assert.equal(list.sort(), list);
+  assert.deepEqual([0].concat(list), [0, 1, 2, 3]);
+  assert.deepEqual([...list], [1, 2, 3]);
+  assert.equal(JSON.stringify(list), '[1,2,3]');
+});
+
+test('structured clones and postMessage arrive as plain arrays', async () => {
+  const list = new IndexableList([1, 2, 3]).useStrict().useRandom(1).enableHistory();
+  list.push(4);
+  const clone = structuredClone(list);
+  assert.deepEqual(clone, [1, 2, 3, 4]);
+  assert.equal(Object.getPrototypeOf(clone), Array.prototype);
+
+  const { port1, port2 } = new MessageChannel();
+  const received = new Promise((resolve) => port2.once('message', resolve));
+  port1.postMessage(list);
+  assert.deepEqual(await received, [1, 2, 3, 4]);
+  port1.close();
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Matrix } from '../src';
+
+test('integer determinants are exact', () => {
+  assert.equal(
+    new Matrix([
+      [2, 0, 1],
+      [1, 3, 2],
+      [1, 1, 2],
+    ]).determinant(),
+    6
+  );
+  assert.equal(
+    new Matrix([
+      [0, 1],
+      [1, 0],
+    ]).determinant(),
+    -1
+  );
+  assert.equal(
+    new Matrix([
+      [1, 2],
+      [2, 4],
+    ]).determinant(),
+    0
+  );
+  assert.equal(new Matrix().determinant(), 1);
+});
+
+test('determinants pivot on the largest entry, not just away from zero', () => {
+  const matrix = new Matrix([
+    [1e-17, 1, 1],
+    [1, 1, 2],
+    [1, 2, 1],
+  ]);
+  assert.ok(Math.abs(matrix.determinant() - 2) < 1e-12);
+  assert.ok(Math.abs(matrix.inverse().determinant() - 0.5) < 1e-12);
+});
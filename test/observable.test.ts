@@ -0,0 +1,19 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { List, ObservableList } from '../src';
+import type { ListChange } from '../src';
+
+test('remove clamps out-of-range indices like List', () => {
+  for (const index of [-5, -1, 0, 2, 3, 7]) {
+    const list = new List([1, 2, 3]);
+    const observable = new ObservableList([1, 2, 3]);
+    assert.equal(observable.remove(index), list.remove(index));
+    assert.deepEqual(observable.toArray(), list.toArray());
+  }
+
+  const observable = new ObservableList([1, 2, 3]);
+  const changes: ListChange<number>[] = [];
+  observable.subscribe((batch) => changes.push(...batch));
+  observable.remove(-5);
+  assert.deepEqual(changes, [{ type: 'remove', index: 0, items: [1] }]);
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Readable } from 'node:stream';
+import { List } from '../src';
+
+test('tagged serialization round-trips nested Lists, Dates, Maps, Sets and BigInts', () => {
+  const list = new List<unknown>([
+    new List([1, 2]),
+    new Date('2020-01-01T00:00:00.000Z'),
+    new Map([['a', 1]]),
+    new Set([1]),
+    BigInt(10),
+  ]);
+  const restored = List.fromJSON<unknown>(list.serialize({ tagged: true }), { tagged: true });
+
+  assert.ok(restored.at(0) instanceof List);
+  assert.deepEqual((restored.at(1) as Date).toISOString(), '2020-01-01T00:00:00.000Z');
+  assert.deepEqual(restored.at(2), new Map([['a', 1]]));
+  assert.deepEqual(restored.at(3), new Set([1]));
+  assert.equal(restored.at(4), BigInt(10));
+});
+
+test('objects shaped like tags round-trip unchanged in tagged mode', () => {
+  const items = [
+    { $type: 'Map', value: 5 },
+    { $type: 'Date', value: '2020-01-01' },
+    { $type: 'Object', value: [['a', 1]] },
+    { $type: 'List', value: [{ $type: 'Set', value: 1 }], extra: true },
+  ];
+  const list = new List(items);
+
+  assert.deepEqual(
+    List.fromJSON(list.serialize({ tagged: true }), { tagged: true }).toArray(),
+    items
+  );
+  assert.deepEqual(
+    List.fromNDJSON(list.toNDJSON({ tagged: true }), { tagged: true }).toArray(),
+    items
+  );
+});
+
+test('untagged data shaped like tags is not revived', () => {
+  const items = [
+    { $type: 'Map', value: 5 },
+    { $type: 'Date', value: '2020-01-01' },
+  ];
+  const list = new List(items);
+
+  assert.deepEqual(List.fromJSON(list.serialize()).toArray(), items);
+  assert.deepEqual(List.fromJSON(JSON.stringify(items)).toArray(), items);
+  assert.deepEqual(List.fromNDJSON(list.toNDJSON()).toArray(), items);
+});
+
+test('already parsed input is revived without a JSON round-trip', () => {
+  const tagged = JSON.parse(new List([new Date(0), BigInt(1)]).serialize({ tagged: true }));
+  const restored = List.fromJSON<unknown>(tagged, { tagged: true });
+  assert.ok(restored.at(0) instanceof Date);
+  assert.equal(restored.at(1), BigInt(1));
+
+  const doubled = List.fromJSON<number>([1, [2]], (_key, value) =>
+    typeof value === 'number' ? value * 2 : value
+  );
+  assert.deepEqual(doubled.toArray({ deep: true }), [2, [4]]);
+
+  const shaped = [{ $type: 'Date', value: '2020-01-01' }];
+  assert.deepEqual(List.fromJSON(shaped).toArray(), shaped);
+});
+
+test('NDJSON streams only revive tags in tagged mode', async () => {
+  const text =
+    '{"$type":"Date","value":"x"}\n{"$type":"Date","value":"2020-01-01T00:00:00.000Z"}\n';
+
+  const plain: unknown[] = [];
+  for await (const batch of List.fromStream(Readable.from([text]), { format: 'ndjson' })) {
+    plain.push(...batch);
+  }
+  assert.deepEqual(plain, [
+    { $type: 'Date', value: 'x' },
+    { $type: 'Date', value: '2020-01-01T00:00:00.000Z' },
+  ]);
+
+  const tagged: unknown[] = [];
+  const source = Readable.from([text.split('\n')[1]]);
+  for await (const batch of List.fromStream(source, { format: 'ndjson', tagged: true })) {
+    tagged.push(...batch);
+  }
+  assert.ok(tagged[0] instanceof Date);
+});
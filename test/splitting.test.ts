@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { List } from '../src';
+
+const arrays = <T>(lists: List<List<T>>): T[][] => lists.toArray().map((list) => list.toArray());
+
+test('chunkWhile and splitWhen cut between adjacent elements', () => {
+  // Sessions of log timestamps less than 10 apart
+  const times = new List([1, 4, 30, 32, 60]);
+  assert.deepEqual(arrays(times.chunkWhile((prev, curr) => curr - prev < 10)), [
+    [1, 4],
+    [30, 32],
+    [60],
+  ]);
+  assert.deepEqual(arrays(times.splitWhen((prev, curr) => curr < prev)), [[1, 4, 30, 32, 60]]);
+  assert.deepEqual(arrays(new List<number>().splitWhen(() => true)), []);
+});
+
+test('splitAt, span and break split once', () => {
+  const list = new List([2, 4, 5, 6]);
+  assert.deepEqual(
+    list.splitAt(-1).map((part) => part.toArray()),
+    [[2, 4, 5], [6]]
+  );
+  assert.deepEqual(
+    list.span((n) => n % 2 === 0).map((part) => part.toArray()),
+    [
+      [2, 4],
+      [5, 6],
+    ]
+  );
+  assert.deepEqual(
+    list.break((n) => n > 10).map((part) => part.toArray()),
+    [[2, 4, 5, 6], []]
+  );
+});
+
+test('groupConsecutive keeps recurring keys apart', () => {
+  const levels = new List(['info', 'info', 'warn', 'info']);
+  assert.deepEqual(
+    levels
+      .groupConsecutive((level) => level)
+      .toArray()
+      .map(([key, group]) => [key, group.length]),
+    [
+      ['info', 2],
+      ['warn', 1],
+      ['info', 1],
+    ]
+  );
+});
+
+test('run-length encoding round-trips and respects the list equality', () => {
+  const list = new List(['a', 'a', 'b', 'a', 'a', 'a']);
+  const runs = list.runLengthEncode();
+  assert.deepEqual(runs.toArray(), [
+    ['a', 2],
+    ['b', 1],
+    ['a', 3],
+  ]);
+  assert.deepEqual(List.runLengthDecode(runs).toArray(), list.toArray());
+
+  const points = new List([{ x: 1 }, { x: 1 }]).useEquality('deep');
+  assert.deepEqual(points.runLengthEncode().toArray(), [[{ x: 1 }, 2]]);
+});
+
+test('intersperse and stepped, partial sliding windows', () => {
+  assert.deepEqual(new List([1, 2, 3]).intersperse(0).toArray(), [1, 0, 2, 0, 3]);
+  assert.deepEqual(new List<number>().intersperse(0).toArray(), []);
+
+  const list = List.range(1, 6);
+  assert.deepEqual(arrays(list.slidingWindow(2, { step: 2 })), [
+    [1, 2],
+    [3, 4],
+  ]);
+  assert.deepEqual(arrays(list.slidingWindow(2, { step: 2, partial: true })), [
+    [1, 2],
+    [3, 4],
+    [5],
+  ]);
+  assert.deepEqual(list.slidingApply(3, (window) => window.sum, { step: 2 }).toArray(), [6, 12]);
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { List, ListArgumentError } from '../src';
+import { createTransform, toStream } from '../src/node';
+
+const collect = async <T>(batches: AsyncIterable<List<T>>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const batch of batches) items.push(...batch);
+  return items;
+};
+
+test('CSV streams keep the header and quoted fields across chunk boundaries', async () => {
+  const text = 'name,note,age\nada,"line one\nline ""two""",36\r\nalan,"a,b",41\n';
+  // Split into chunks of three characters, cutting through rows, quotes and line breaks
+  const chunks = text.match(/[\s\S]{1,3}/g)!.map((chunk) => Buffer.from(chunk));
+  const batches = List.fromStream(Readable.from(chunks), {
+    format: 'csv',
+    batchSize: 1,
+    csv: { types: { age: 'number' } },
+  });
+
+  assert.deepEqual(await collect(batches), [
+    { name: 'ada', note: 'line one\nline "two"', age: 36 },
+    { name: 'alan', note: 'a,b', age: 41 },
+  ]);
+});
+
+test('CSV streams match List.fromCSV', async () => {
+  const text = 'a;b\n1;x\n\n2;"y;z"';
+  const options = { delimiter: ';', dynamicTyping: true };
+  const chunks = text.split('');
+
+  assert.deepEqual(
+    await collect(List.fromStream(Readable.from(chunks), { format: 'csv', csv: options })),
+    List.fromCSV(text, options).toArray()
+  );
+});
+
+test('unknown stream formats are rejected', async () => {
+  const format = 'xml' as 'csv';
+  await assert.rejects(
+    collect(List.fromStream(Readable.from(['a']), { format })),
+    ListArgumentError
+  );
+  assert.throws(() => createTransform((batch) => batch, { format }), ListArgumentError);
+});
+
+test('transforms run the pipeline per batch and write NDJSON', async () => {
+  const output: string[] = [];
+  await pipeline(
+    toStream(List.range(5)),
+    createTransform((batch: List<number>) => batch.map((n) => n * 2), {
+      batchSize: 2,
+      output: 'ndjson',
+    }),
+    async (source: AsyncIterable<Buffer>) => {
+      for await (const chunk of source) output.push(chunk.toString());
+    }
+  );
+  assert.equal(output.join(''), '0\n2\n4\n6\n8\n');
+});
+
+test('unique drops duplicates across batches within its key limit', async () => {
+  const run = async (options: { limit?: number }) => {
+    const output: number[] = [];
+    await pipeline(
+      await new List([1, 2, 1, 3, 2, 4, 1]).toStream(),
+      createTransform((batch: List<number>) => batch, {
+        batchSize: 2,
+        unique: { key: (n: number) => n % 10, ...options },
+      }),
+      async (source: AsyncIterable<number>) => {
+        for await (const item of source) output.push(item);
+      }
+    );
+    return output;
+  };
+
+  assert.deepEqual(await run({}), [1, 2, 3, 4]);
+  // Only the two most recently seen keys are remembered, so 2 and the last 1 pass again
+  assert.deepEqual(await run({ limit: 2 }), [1, 2, 3, 2, 4, 1]);
+  assert.throws(
+    () => createTransform((batch) => batch, { unique: { limit: 0 } }),
+    ListArgumentError
+  );
+});
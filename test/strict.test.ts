@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { List, ListArgumentError, ListError, ListRangeError, ListTypeError } from '../src';
+
+test('strict index methods throw ListRangeError where lenient ones clamp', () => {
+  const strict = new List([1, 2, 3]).useStrict();
+  assert.throws(() => strict.insert(0, 4), ListRangeError);
+  assert.throws(() => strict.remove(3), ListRangeError);
+  assert.throws(() => strict.at(-4), ListRangeError);
+  assert.throws(() => strict.splitAt(5), ListRangeError);
+  assert.throws(() => strict.each(() => undefined, { start: 4 }), ListRangeError);
+  assert.deepEqual(strict.toArray(), [1, 2, 3]);
+
+  strict.insert(4, -1);
+  assert.equal(strict.remove(-1), 3);
+  assert.deepEqual(strict.toArray(), [1, 2, 4]);
+
+  const lenient = new List([1, 2, 3]);
+  lenient.insert(4, 10);
+  assert.equal(lenient.remove(10), undefined);
+  assert.equal(lenient.at(-5), undefined);
+  assert.deepEqual(lenient.toArray(), [1, 2, 3, 4]);
+});
+
+test('sizes and steps must be positive, and integers in strict mode', () => {
+  const list = new List([1, 2, 3]);
+  assert.throws(() => list.chunk(0), ListArgumentError);
+  assert.throws(() => list.divideInto(-1), ListArgumentError);
+  assert.throws(() => list.each(() => undefined, { step: 0 }), ListArgumentError);
+  assert.equal(list.chunk(1.5).length, 2);
+
+  list.useStrict();
+  assert.throws(() => list.chunk(1.5), ListArgumentError);
+  assert.throws(() => list.slidingWindow(0), ListArgumentError);
+  assert.throws(() => list.each(() => undefined, { window: -1 }), ListArgumentError);
+});
+
+test('numeric operations reject other elements with ListTypeError', () => {
+  const mixed = new List<unknown>([1, '2', 3]);
+  assert.equal(mixed.sum, 4);
+  assert.throws(() => mixed.useStrict().sum, ListTypeError);
+  assert.throws(() => mixed.median, ListTypeError);
+  assert.throws(() => mixed.histogram(), ListTypeError);
+  assert.throws(() => new List([-1, 2]).useStrict().sort('asc', 'radix'), ListTypeError);
+});
+
+test('the global setting applies to lists without their own', (t) => {
+  t.after(() => {
+    List.strict = false;
+  });
+  List.strict = true;
+  assert.throws(() => new List([1]).remove(1), ListRangeError);
+  assert.equal(new List([1]).useStrict(false).remove(1), undefined);
+
+  assert.throws(
+    () => new List([1]).insert(2, 2),
+    (error: unknown) => error instanceof ListError && error.name === 'ListRangeError'
+  );
+});